@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError, getIdsFromBody } from "@/lib/shows-db"
+
+// POST - Merge duplicate artists into one ({ targetId, ids }): their shows move to the target and
+// their names become its aliases
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    const targetId = typeof body.targetId === "string" ? body.targetId : ""
+    const sourceIds = getIdsFromBody(body).filter((id) => id !== targetId)
+    if (!targetId || sourceIds.length === 0) {
+      return NextResponse.json({ error: "A target artist and at least one other artist are required" }, { status: 400 })
+    }
+
+    const { data, error } = await supabase.rpc("merge_artists", { target_id: targetId, source_ids: sourceIds })
+
+    if (error?.code === "P0002") {
+      return NextResponse.json({ error: "Artist not found" }, { status: 404 })
+    }
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to merge artists: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ moved: data ?? 0 })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to merge artists"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { ARTIST_SELECT, artistFromRow, parseArtistUpdate, fetchEntityKeys, fetchStoredName, updateNames, type ArtistUpdate } from "@/lib/entities"
+
+// GET - The signed-in user's artists with their aliases and number of shows
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const { data, error } = await supabase
+      .from("artists")
+      .select(ARTIST_SELECT)
+      .is("shows.deleted_at", null)
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load artists: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ artists: (data || []).map(artistFromRow) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load artists"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+// PATCH - Rename an artist or change its aliases ({ id, name?, aliases? }); its shows are renamed too
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body: ArtistUpdate = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Artist ID is required" }, { status: 400 })
+    }
+
+    // Aliases are compared by the keys the shows_link_entities trigger matches with, and against
+    // the saved name when the body doesn't rename
+    const storedName = await fetchStoredName(supabase, "artists", body)
+    const keyOf = await fetchEntityKeys(supabase, updateNames(body, storedName))
+    const parsed = parseArtistUpdate(body, keyOf, storedName)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("artists")
+      .update(parsed.update)
+      .eq("id", body.id)
+      .is("shows.deleted_at", null)
+      .select(ARTIST_SELECT)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to update artist: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Artist not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ artist: artistFromRow(data) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to update artist"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
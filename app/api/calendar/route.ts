@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSupabaseServer } from "@/lib/supabase-server"
+import { isUpcoming, normalizeDate, type Show } from "@/lib/shows"
+import { dbRowToShow, formatSupabaseError, type DbRow } from "@/lib/shows-db"
+import { buildICalendar, showToICalEvent } from "@/lib/ical"
+
+// Upcoming shows plus future shows that were cancelled or postponed, so calendars
+// show the status change instead of the event silently disappearing
+function isInFeed(show: Show, today: Date): boolean {
+  if (isUpcoming(show, today)) return true
+  return (show.attendance === "CANCELLED" || show.attendance === "POSTPONED") && normalizeDate(show.date) >= today
+}
+
+/**
+ * Calendar subscription feed of upcoming shows.
+ *
+ * Subscribe with webcal://<host>/api/calendar?token=<calendar token>. Each user has their own
+ * token in the profiles table; the dashboard shows the full URL.
+ * Event UIDs are derived from show ids, so edits, cancellations and postponements
+ * update the existing calendar entries on the next refresh.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token")
+    if (!token) {
+      return NextResponse.json({ error: "Invalid calendar token" }, { status: 401 })
+    }
+
+    // Calendar apps cannot sign in, so the token is resolved to its owner with the service client
+    const supabase = getSupabaseServer()
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("calendar_token", token)
+      .maybeSingle()
+
+    if (profileError) {
+      console.error("Supabase error:", profileError)
+      return NextResponse.json({ error: `Failed to load calendar: ${formatSupabaseError(profileError)}` }, { status: 500 })
+    }
+    if (!profile) {
+      return NextResponse.json({ error: "Invalid calendar token" }, { status: 401 })
+    }
+
+    const today = normalizeDate(new Date())
+    const { data, error } = await supabase
+      .from("shows")
+      .select("*")
+      .eq("user_id", (profile as { user_id: string }).user_id)
+      .is("deleted_at", null)
+      .gte("date", today.toISOString().slice(0, 10))
+      .order("date", { ascending: true })
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load shows: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    const rows = ((data as DbRow[]) || []).filter((row) => isInFeed(dbRowToShow(row), today))
+    const body = buildICalendar(
+      rows.map((row) => showToICalEvent(dbRowToShow(row), row.updated_at)),
+      { name: "SONA Upcoming Shows", refreshInterval: "PT1H" }
+    )
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="sona-upcoming.ics"',
+        "Cache-Control": "no-cache",
+      },
+    })
+  } catch (error) {
+    console.error("Calendar feed error:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Internal error" }, { status: 500 })
+  }
+}
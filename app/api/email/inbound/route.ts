@@ -1,20 +1,32 @@
 import { NextRequest, NextResponse } from "next/server"
 import { Resend } from "resend"
-import { supabase } from "@/lib/supabase"
-import type { Database } from "@/lib/database.types"
-import { parseShowFromEmail } from "@/lib/parse-show-from-email"
-
-type DbRow = Database["public"]["Tables"]["shows"]["Row"]
+import { getSupabaseServer } from "@/lib/supabase-server"
+import { claimInboundEvent, runInboundEvent, type InboundEventPayload } from "@/lib/inbound-events"
 
 const resendApiKey = process.env.RESEND_API_KEY
 const resendWebhookSecret = process.env.RESEND_WEBHOOK_SECRET
 
 /**
  * Resend Inbound webhook: when someone forwards an email to your Resend inbound address,
- * Resend POSTs here. We fetch the email body, parse show details, and create a show.
+ * Resend POSTs here. We fetch the email body, parse show details, and create a show (one per event
+ * for festival passes and multi-show orders; the response lists every created id). Cancellation,
+ * postponement and refund emails update the matching existing show instead. PDF and Wallet ticket
+ * attachments are stored with the shows (see lib/show-attachments.ts).
+ *
+ * Each delivery is recorded under its svix-id (see lib/inbound-events.ts): Resend retries a failed
+ * delivery, and a retry of an event that was already processed is acknowledged without creating its
+ * shows again. Failures are recorded with their error and answered with a 500 so Resend retries;
+ * they can also be reprocessed from the dashboard.
  *
  * Setup: Resend Dashboard → Receiving → add domain + webhook URL → this endpoint.
- * Env: RESEND_API_KEY (required), RESEND_WEBHOOK_SECRET (recommended).
+ * The sender/recipient is resolved to an account (see lib/inbound-routing.ts) and the show is
+ * created in that account's collection; mail from unknown senders is rejected. Depending on the
+ * parser's confidence the show is created, created with its uncertain fields flagged, or the email
+ * is held in the account's review inbox (see decideInboundAction).
+ *
+ * Env: RESEND_API_KEY (required), RESEND_WEBHOOK_SECRET (recommended), SUPABASE_SERVICE_ROLE_KEY
+ * (required, the webhook has no signed-in user so it writes with the service client),
+ * INBOUND_EMAIL_ADDRESS (the Resend receiving address personal addresses are derived from).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -23,7 +35,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No body" }, { status: 400 })
     }
 
-    let event: { type: string; data: { email_id: string; subject?: string } }
+    let event: { type: string; data: InboundEventPayload }
     if (resendWebhookSecret) {
       const resend = new Resend(resendApiKey ?? undefined)
       try {
@@ -56,78 +68,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const resend = new Resend(resendApiKey)
-    const { data: email, error: fetchError } = await resend.emails.receiving.get(event.data.email_id)
-    if (fetchError || !email) {
-      console.error("Resend get email failed:", fetchError)
-      return NextResponse.json(
-        { error: "Failed to fetch email content" },
-        { status: 502 }
-      )
+    const supabase = getSupabaseServer()
+    // Unsigned test requests have no svix-id; the email id identifies them well enough
+    const svixId = request.headers.get("svix-id") || `email:${event.data.email_id}`
+    const claim = await claimInboundEvent(supabase, { svixId, payload: event.data })
+    if ("duplicate" in claim) {
+      if (claim.inProgress) {
+        // Conflict so Resend tries again later, by when the first delivery has finished
+        return NextResponse.json({ error: "Event is already being processed" }, { status: 409 })
+      }
+      return NextResponse.json({ ok: true, duplicate: true, status: claim.duplicate.status })
     }
 
-    const subject = email.subject ?? ""
-    const body = email.text ?? email.html ?? ""
-    const bodyPreview = body.slice(0, 500).replace(/\s+/g, " ")
-    const parsed = parseShowFromEmail(subject, body)
-    if (!parsed) {
-      console.warn("Inbound: parse failed", {
-        subject,
-        bodyPreview,
-      })
-      return NextResponse.json({
-        ok: true,
-        created: false,
-        reason: "Could not parse show details from email (need at least event name and date)",
-      })
+    const outcome = await runInboundEvent(supabase, new Resend(resendApiKey), claim.claimed)
+    if (outcome.status === "failed") {
+      return NextResponse.json({ error: outcome.error }, { status: 500 })
     }
-
-    const showDate = new Date(parsed.date)
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    showDate.setHours(0, 0, 0, 0)
-    const attendance = showDate < today ? "YES" : "NOT YET"
-
-    const isEventim = /EVENTIM/i.test(subject)
-    const insertData: Database["public"]["Tables"]["shows"]["Insert"] = {
-      show: parsed.show,
-      date: parsed.date,
-      city: parsed.city,
-      venue: parsed.venue,
-      ticket: "YES",
-      ticket_vendor: isEventim ? "Eventim" : "",
-      ticket_location: "In App",
-      attendance: attendance as "YES" | "NO" | "NOT YET" | "CANCELLED" | "POSTPONED",
-      note: null,
+    if ("rejected" in outcome) {
+      // 200 so Resend does not retry a delivery that will never be accepted
+      return NextResponse.json({ ok: true, created: false, rejected: true, reason: outcome.rejected })
     }
 
-    const { data: row, error: insertError } = await supabase
-      .from("shows")
-      .insert(insertData as any)
-      .select()
-      .single()
-
-    if (insertError) {
-      console.error("Supabase insert error:", insertError)
-      return NextResponse.json(
-        { error: `Failed to create show: ${insertError.message}` },
-        { status: 500 }
-      )
-    }
-
-    const show = row as DbRow
-    console.info("Inbound: show created", { id: show.id, show: show.show, date: show.date })
-    return NextResponse.json({
-      ok: true,
-      created: true,
-      show: {
-        id: show.id,
-        show: show.show,
-        date: show.date,
-        city: show.city,
-        venue: show.venue,
-      },
-    })
+    const { createdIds, attachments, results } = outcome
+    return NextResponse.json({ ok: true, created: createdIds.length > 0, createdIds, attachments, results })
   } catch (error) {
     console.error("Inbound email handler error:", error)
     return NextResponse.json(
@@ -136,3 +99,4 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
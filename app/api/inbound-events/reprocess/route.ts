@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Resend } from "resend"
+import { getRequestAuth, getSupabaseServer } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { retryInboundEvent, runInboundEvent, type InboundEventRow } from "@/lib/inbound-events"
+
+const resendApiKey = process.env.RESEND_API_KEY
+
+// POST - Process a failed inbound email again ({ id })
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Inbound event ID is required" }, { status: 400 })
+    }
+    if (!resendApiKey) {
+      console.error("RESEND_API_KEY is required to fetch email content")
+      return NextResponse.json({ error: "Server misconfiguration: RESEND_API_KEY" }, { status: 500 })
+    }
+
+    // Read through the user's client so only their own events can be reprocessed
+    const { data, error } = await supabase.from("inbound_events").select("*").eq("id", body.id).maybeSingle()
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load inbound event: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Inbound event not found" }, { status: 404 })
+    }
+    const event = data as InboundEventRow
+    if (event.status !== "failed") {
+      return NextResponse.json({ error: "Only failed emails can be reprocessed" }, { status: 409 })
+    }
+
+    // Shows, review inbox and ticket files are written like the webhook does, with the service client
+    const service = getSupabaseServer()
+    const claimed = await retryInboundEvent(service, event)
+    if (!claimed) {
+      return NextResponse.json({ error: "This email is already being processed" }, { status: 409 })
+    }
+
+    const outcome = await runInboundEvent(service, new Resend(resendApiKey), claimed)
+    if (outcome.status === "failed") {
+      return NextResponse.json({ error: outcome.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ ok: true, status: outcome.status, createdIds: "createdIds" in outcome ? outcome.createdIds : [] })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to reprocess email"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth, getSupabaseServer } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { assignUnroutedEvents, inboundEventFromRow, type InboundEventRow } from "@/lib/inbound-events"
+
+// GET - Forwarded emails the webhook failed to process, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    // Emails that failed before they were routed belong to no account yet; route them now so the
+    // user's ones are listed. The list still loads when this fails.
+    try {
+      await assignUnroutedEvents(getSupabaseServer())
+    } catch (error) {
+      console.error("Failed to route inbound events:", error)
+    }
+
+    const { data, error } = await supabase
+      .from("inbound_events")
+      .select("*")
+      .eq("status", "failed")
+      .order("created_at", { ascending: false })
+      .limit(50)
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load failed deliveries: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ events: ((data as InboundEventRow[]) || []).map(inboundEventFromRow) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load failed deliveries"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
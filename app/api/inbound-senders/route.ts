@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { extractEmailAddress } from "@/lib/inbound-routing"
+
+// GET - Email addresses allowed to forward ticket emails into the signed-in user's collection
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const { data, error } = await supabase
+      .from("inbound_senders")
+      .select("id, email")
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load senders: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ senders: data || [] })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load senders"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+// POST - Allow another sender ({ email })
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    const email = typeof body.email === "string" ? extractEmailAddress(body.email) : ""
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: `Invalid email address: ${body.email}` }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("inbound_senders")
+      .insert({ email } as any)
+      .select("id, email")
+      .single()
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: `${email} is already allowed` }, { status: 409 })
+    }
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to add sender: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ sender: data }, { status: 201 })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to add sender"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+// DELETE - Remove an allowed sender ({ id })
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Sender ID is required" }, { status: 400 })
+    }
+
+    const { error } = await supabase.from("inbound_senders").delete().eq("id", body.id)
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to remove sender: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to remove sender"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
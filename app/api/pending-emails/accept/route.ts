@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import type { Database } from "@/lib/database.types"
+import type { EmailShowFields, ParsedShowFields } from "@/lib/parse-show-from-email"
+import type { PendingEmailRow } from "@/lib/pending-emails"
+import { dbRowToShow, formatSupabaseError, parsedShowToInsert, type DbRow } from "@/lib/shows-db"
+import { noticeUpdate } from "@/lib/inbound-dedupe"
+
+// POST - Create a show from a pending email's corrected fields ({ id, show }) and resolve the email.
+// Held cancellation, postponement and refund notices create the show cancelled or postponed.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    const fields: Partial<ParsedShowFields> = body.show ?? {}
+    if (!body.id) {
+      return NextResponse.json({ error: "Pending email ID is required" }, { status: 400 })
+    }
+    if (!fields.show || !fields.date || !fields.city || !fields.venue) {
+      return NextResponse.json(
+        { error: `Missing required fields: show=${fields.show}, date=${fields.date}, city=${fields.city}, venue=${fields.venue}` },
+        { status: 400 }
+      )
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fields.date) || isNaN(new Date(fields.date).getTime())) {
+      return NextResponse.json({ error: `Invalid date: ${fields.date}. Expected YYYY-MM-DD format.` }, { status: 400 })
+    }
+
+    // Claim the email before creating the show: of two accepts at once only one resolves it
+    const claimedAt = new Date().toISOString()
+    const { data: claimed, error: claimError } = await supabase
+      .from("pending_emails")
+      // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+      .update({ resolved_at: claimedAt })
+      .eq("id", body.id)
+      .is("resolved_at", null)
+      .select("id, parsed")
+
+    if (claimError) {
+      console.error("Supabase error:", claimError)
+      return NextResponse.json({ error: `Failed to claim pending email: ${formatSupabaseError(claimError)}` }, { status: 500 })
+    }
+    const pending = ((claimed as Pick<PendingEmailRow, "id" | "parsed">[]) || [])[0]
+    if (!pending) {
+      const { data: existing } = await supabase.from("pending_emails").select("id").eq("id", body.id).maybeSingle()
+      return existing
+        ? NextResponse.json({ error: "This email has already been turned into a show" }, { status: 409 })
+        : NextResponse.json({ error: "Pending email not found" }, { status: 404 })
+    }
+
+    const parsed = pending.parsed as EmailShowFields | null
+    const purchase = parsedShowToInsert({
+      show: fields.show.trim(),
+      date: fields.date,
+      city: fields.city.trim(),
+      venue: fields.venue.trim(),
+      vendor: fields.vendor?.trim() ?? "",
+      // Order details are not editable in the review inbox; keep what was parsed
+      ticket: parsed?.ticket,
+    })
+    // A cancellation, postponement or refund about a show that was never added creates it as the
+    // notice leaves it: cancelled, or postponed to the new date (emails held before notices were
+    // classified have no kind)
+    const insertData =
+      parsed?.kind && parsed.kind !== "purchase"
+        ? { ...purchase, ...noticeUpdate({ date: purchase.date, previous_dates: [] }, parsed.kind, parsed.newDate) }
+        : purchase
+
+    const { data: row, error: insertError } = await supabase
+      .from("shows")
+      .insert(insertData as any)
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error("Supabase error:", insertError)
+      // Put the email back in the inbox so it can be accepted again
+      const { error: releaseError } = await supabase
+        .from("pending_emails")
+        // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+        .update({ resolved_at: null })
+        .eq("id", body.id)
+        .eq("resolved_at", claimedAt)
+      if (releaseError) console.error("Supabase error:", releaseError)
+      return NextResponse.json({ error: `Failed to create show: ${formatSupabaseError(insertError)}` }, { status: 500 })
+    }
+
+    const show = row as DbRow
+    const updateData: Database["public"]["Tables"]["pending_emails"]["Update"] = { show_id: show.id }
+    const { error: resolveError } = await supabase
+      .from("pending_emails")
+      // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+      .update(updateData)
+      .eq("id", body.id)
+
+    if (resolveError) {
+      // The show exists and the email is resolved; it just does not link to the show
+      console.error("Supabase error:", resolveError)
+    }
+
+    return NextResponse.json({ show: dbRowToShow(show) }, { status: 201 })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to create show"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { pendingEmailFromRow, type PendingEmailRow } from "@/lib/pending-emails"
+
+// GET - Forwarded emails waiting for review, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const { data, error } = await supabase
+      .from("pending_emails")
+      .select("*")
+      .is("resolved_at", null)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load pending emails: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ pendingEmails: ((data as PendingEmailRow[]) || []).map(pendingEmailFromRow) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load pending emails"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+// DELETE - Dismiss a pending email without creating a show ({ id })
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Pending email ID is required" }, { status: 400 })
+    }
+
+    const { error } = await supabase.from("pending_emails").delete().eq("id", body.id)
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to dismiss email: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to dismiss email"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
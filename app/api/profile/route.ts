@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { getInboundAddress } from "@/lib/inbound-routing"
+
+// GET - The signed-in user's account details, calendar feed token and inbound email address
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase, user } = auth
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("calendar_token, inbound_alias")
+      .eq("user_id", user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load profile: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    const profile = data as { calendar_token: string; inbound_alias: string } | null
+    return NextResponse.json({
+      profile: {
+        email: user.email ?? "",
+        calendarToken: profile?.calendar_token ?? null,
+        inboundAddress: profile ? getInboundAddress(profile.inbound_alias) : null,
+      },
+    })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load profile"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
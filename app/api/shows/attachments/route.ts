@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import type { Database } from "@/lib/database.types"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { TICKET_BUCKET } from "@/lib/show-attachments"
+
+type AttachmentRow = Database["public"]["Tables"]["show_attachments"]["Row"]
+
+// GET - Download a ticket file (?id=<attachment id>)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Attachment ID is required" }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("show_attachments")
+      .select("filename, content_type, storage_path")
+      .eq("id", id)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load attachment: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+    }
+
+    const attachment = data as Pick<AttachmentRow, "filename" | "content_type" | "storage_path">
+    const { data: file, error: downloadError } = await supabase.storage.from(TICKET_BUCKET).download(attachment.storage_path)
+    if (downloadError || !file) {
+      console.error("Supabase storage error:", downloadError)
+      return NextResponse.json({ error: "Failed to download ticket file" }, { status: 500 })
+    }
+
+    return new NextResponse(file, {
+      headers: {
+        "Content-Type": attachment.content_type,
+        "Content-Disposition": `attachment; filename="${attachment.filename.replace(/["\\\r\n]/g, "")}"`,
+      },
+    })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to download ticket file"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { EXPORT_FORMATS, parseShowQuery, showsToCSV, type ExportFormat } from "@/lib/shows"
+import {
+  dbRowToShow,
+  fetchInBatches,
+  formatSupabaseError,
+  orderShows,
+  resolveShowSort,
+  selectShows,
+  type DbRow,
+} from "@/lib/shows-db"
+import { buildICalendar, showToICalEvent } from "@/lib/ical"
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+}
+
+/**
+ * GET /api/shows/export?format=csv|json|ics&year=&attendance=&search=&sort=
+ *
+ * csv: same column layout the import panel reads; json: raw rows including ids and timestamps;
+ * ics: one all-day event per show. Takes the same filters as GET /api/shows, without paging.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const params = request.nextUrl.searchParams
+    const format = (params.get("format") ?? "csv") as ExportFormat
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Unsupported export format: ${format}. Use csv, json or ics.` }, { status: 400 })
+    }
+
+    const parsed = parseShowQuery(params)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const { query } = parsed
+    const year = query.year
+
+    // Every matching show, not just the first 1000 PostgREST returns per request
+    const sort = resolveShowSort(query)
+    const { data: rows, error } = await fetchInBatches<DbRow>(() =>
+      orderShows(selectShows(supabase, query, { plainRows: true }), sort)
+    )
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to export shows: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    const shows = rows.map(dbRowToShow)
+
+    let body: string
+    if (format === "csv") {
+      body = showsToCSV(shows)
+    } else if (format === "json") {
+      // search_text is derived from the other columns
+      const exportedRows = rows.map(({ search_text, ...row }) => row)
+      body = JSON.stringify({ exportedAt: new Date().toISOString(), count: exportedRows.length, shows: exportedRows }, null, 2)
+    } else {
+      const updatedAt = new Map(rows.map((row) => [row.id, row.updated_at]))
+      body = buildICalendar(
+        shows.map((show) => showToICalEvent(show, updatedAt.get(show.id!))),
+        { name: year ? `SONA Shows ${year}` : "SONA Shows" }
+      )
+    }
+
+    const filename = `sona-shows${year ? `-${year}` : ""}.${format}`
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to export shows"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError, getIdsFromBody, setShowsDeleted } from "@/lib/shows-db"
+
+// POST - Undo a soft delete for one show ({ id }) or several ({ ids })
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    const ids = getIdsFromBody(body)
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: "Show ID is required" }, { status: 400 })
+    }
+
+    const { data, error } = await setShowsDeleted(supabase, ids, false)
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ 
+        error: `Failed to restore shows: ${formatSupabaseError(error)}` 
+      }, { status: 500 })
+    }
+
+    const restoredIds = ((data as { id: string }[]) || []).map((row) => row.id)
+    return NextResponse.json({ ids: restoredIds, count: restoredIds.length })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to restore shows"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -1,30 +1,24 @@
 import { NextRequest, NextResponse } from "next/server"
-import { supabase } from "@/lib/supabase"
-import type { Show } from "@/lib/shows"
+import { getRequestAuth } from "@/lib/supabase-server"
 import type { Database } from "@/lib/database.types"
-
-type DbRow = Database["public"]["Tables"]["shows"]["Row"]
-
-// Helper function to transform database row to Show type
-function dbRowToShow(row: DbRow): Show {
-  return {
-    id: row.id,
-    show: row.show,
-    date: row.date,
-    city: row.city,
-    venue: row.venue,
-    ticket: row.ticket,
-    ticketVendor: row.ticket_vendor,
-    ticketLocation: row.ticket_location,
-    attendance: row.attendance,
-    note: row.note || undefined,
-  }
-}
-
-// Helper function to format Supabase error messages
-function formatSupabaseError(error: any): string {
-  return `${error.message}${error.details ? ` (Details: ${error.details})` : ""}${error.hint ? ` (Hint: ${error.hint})` : ""}`
-}
+import { parseShowQuery, type Show, type ShowUpdate } from "@/lib/shows"
+import {
+  dbRowToShow,
+  decodeShowCursor,
+  fetchAllShows,
+  fetchInBatches,
+  formatSupabaseError,
+  getIdsFromBody,
+  pageShows,
+  selectShows,
+  setShowsDeleted,
+  showToInsert,
+  toShowsPage,
+  type DbRow,
+  type DbRowWithAttachments,
+} from "@/lib/shows-db"
+import { buildImportPreview, planShowImport, summarizeImportPlan, type ImportMode } from "@/lib/show-import"
+import { canonicalizeShows, fetchEntityKeys, type ArtistRow, type VenueRow } from "@/lib/entities"
 
 // Helper function to validate date format and value
 function validateDate(date: string, showName?: string): { valid: boolean; error?: string } {
@@ -48,13 +42,48 @@ function validateDate(date: string, showName?: string): { valid: boolean; error?
   return { valid: true }
 }
 
-// GET - Fetch all shows
-export async function GET() {
+// Helper function to validate the cost fields (null clears them on update)
+function validateCosts(show: Partial<ShowUpdate>): { valid: boolean; error?: string } {
+  for (const field of ["price", "fees"] as const) {
+    const value = show[field]
+    if (value != null && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+      return { valid: false, error: `Invalid ${field}: ${value}. Expected an amount of 0 or more.` }
+    }
+  }
+  if (show.currency && !/^[A-Z]{3}$/.test(show.currency)) {
+    return { valid: false, error: `Invalid currency: ${show.currency}. Expected an ISO 4217 code like EUR.` }
+  }
+  if (show.quantity != null && (!Number.isInteger(show.quantity) || show.quantity < 1)) {
+    return { valid: false, error: `Invalid quantity: ${show.quantity}. Expected a whole number of tickets.` }
+  }
+  return { valid: true }
+}
+
+/**
+ * GET - Fetch one page of shows (soft-deleted shows are excluded)
+ *
+ * ?year=&from=&to=&attendance=&status=&city=&venue=&search=&sort=&limit=&cursor= (see ShowQuery).
+ * The response has the shows and nextCursor, which fetches the following page (null on the last one).
+ */
+export async function GET(request: NextRequest) {
   try {
-    const { data, error } = await supabase
-      .from("shows")
-      .select("*")
-      .order("date", { ascending: true })
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const parsed = parseShowQuery(request.nextUrl.searchParams)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const { query } = parsed
+    const cursor = query.cursor ? decodeShowCursor(query.cursor) : null
+    if (query.cursor && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+    }
+
+    const { data, error } = await pageShows(selectShows(supabase, query), query, cursor)
 
     if (error) {
       console.error("Supabase error:", error)
@@ -62,9 +91,7 @@ export async function GET() {
     }
 
     // Transform database format to Show type
-    const shows: Show[] = ((data as DbRow[]) || []).map(dbRowToShow)
-
-    return NextResponse.json({ shows })
+    return NextResponse.json(toShowsPage((data as DbRowWithAttachments[]) || [], query, cursor))
   } catch (error) {
     console.error("API error:", error)
     return NextResponse.json({ error: "Failed to fetch shows" }, { status: 500 })
@@ -74,6 +101,12 @@ export async function GET() {
 // POST - Create a new show
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
     const body = await request.json()
     const showData: Show = body
 
@@ -91,6 +124,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: dateValidation.error }, { status: 400 })
     }
 
+    const costValidation = validateCosts(showData)
+    if (!costValidation.valid) {
+      return NextResponse.json({ error: costValidation.error }, { status: 400 })
+    }
+
     // Auto-set attendance to "YES" for past dates if not explicitly set to something else
     let attendance = showData.attendance
     if (attendance === "NOT YET" || !attendance) {
@@ -117,6 +155,10 @@ export async function POST(request: NextRequest) {
       ticket_location: showData.ticketLocation,
       attendance: attendance as "YES" | "NO" | "NOT YET" | "CANCELLED" | "POSTPONED",
       note: showData.note || null,
+      price: showData.price ?? null,
+      fees: showData.fees ?? null,
+      currency: showData.currency || null,
+      quantity: showData.quantity || null,
     }
     
     const { data, error } = await supabase
@@ -142,21 +184,31 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT - Update multiple shows (for bulk import)
+// PUT - Bulk import. Merges by show + date + venue by default; mode "replace" also deletes unmatched shows.
+// With dryRun: true nothing is written and the row-by-row preview is returned instead.
 export async function PUT(request: NextRequest) {
   try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
     const body = await request.json()
     const shows: Show[] = body.shows
+    const mode: ImportMode = body.mode === "replace" ? "replace" : "merge"
+    const dryRun = body.dryRun === true
 
     if (!shows || !Array.isArray(shows) || shows.length === 0) {
       return NextResponse.json({ error: "No shows provided to import" }, { status: 400 })
     }
 
-    // Validate shows data
-    for (const show of shows) {
+    // Validate shows data (row is the 1-based position in the import)
+    for (const [index, show] of shows.entries()) {
+      const row = index + 1
       if (!show.show || !show.date || !show.city || !show.venue) {
         return NextResponse.json(
-          { error: `Invalid show data: missing required fields (show: ${show.show}, date: ${show.date}, city: ${show.city}, venue: ${show.venue})` },
+          { error: `Invalid show data in row ${row}: missing required fields (show: ${show.show}, date: ${show.date}, city: ${show.city}, venue: ${show.venue})`, row },
           { status: 400 }
         )
       }
@@ -164,45 +216,67 @@ export async function PUT(request: NextRequest) {
       // Validate date format and value
       const dateValidation = validateDate(show.date, show.show)
       if (!dateValidation.valid) {
-        return NextResponse.json({ error: dateValidation.error }, { status: 400 })
+        return NextResponse.json({ error: `Row ${row}: ${dateValidation.error}`, row }, { status: 400 })
       }
-    }
 
-    // Delete all existing shows
-    // Use a filter that matches all rows: created_at >= a very old date (matches all rows)
-    const { error: deleteError } = await supabase.from("shows").delete().gte("created_at", "1970-01-01")
+      const costValidation = validateCosts(show)
+      if (!costValidation.valid) {
+        return NextResponse.json({ error: `Row ${row}: ${costValidation.error}`, row }, { status: 400 })
+      }
+    }
 
-    if (deleteError) {
-      console.error("Delete error:", deleteError)
-      return NextResponse.json({ error: `Failed to delete existing shows: ${deleteError.message} (Code: ${deleteError.code})` }, { status: 500 })
+    // Every saved show, artist and venue, so collections over 1000 rows are matched (and replaced) as a whole
+    const [existingShows, { data: artists, error: artistsError }, { data: venues, error: venuesError }] = await Promise.all([
+      fetchAllShows(supabase),
+      fetchInBatches<Pick<ArtistRow, "name" | "match_keys">>(() =>
+        supabase.from("artists").select("name, match_keys").order("created_at", { ascending: true }).order("id", { ascending: true })
+      ),
+      fetchInBatches<Pick<VenueRow, "name" | "city" | "match_keys" | "city_key">>(() =>
+        supabase
+          .from("venues")
+          .select("name, city, match_keys, city_key")
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+      ),
+    ])
+
+    const loadError = artistsError ?? venuesError
+    if (loadError) {
+      console.error("Supabase error:", loadError)
+      return NextResponse.json({ error: `Failed to load artists and venues: ${formatSupabaseError(loadError)}` }, { status: 500 })
     }
 
-    // Insert new shows
-    const showsToInsert: Database["public"]["Tables"]["shows"]["Insert"][] = shows.map((show) => ({
-      show: show.show,
-      date: show.date,
-      city: show.city,
-      venue: show.venue,
-      ticket: show.ticket,
-      ticket_vendor: show.ticketVendor,
-      ticket_location: show.ticketLocation,
-      attendance: show.attendance,
-      note: show.note || null,
-    }))
+    // Rows spelling an artist or venue differently (or by an alias) match the saved shows
+    const keyOf = await fetchEntityKeys(supabase, shows.flatMap((show) => [show.show, show.venue, show.city]))
+    const incoming = canonicalizeShows(shows, artists, venues, keyOf)
+    const plan = planShowImport(existingShows, incoming)
+
+    if (dryRun) {
+      return NextResponse.json(buildImportPreview(plan, mode))
+    }
 
-    const { data, error } = await supabase.from("shows").insert(showsToInsert as any).select()
+    // Inserts, updates and soft deletes run in one transaction inside the import_shows function
+    const { error } = await supabase.rpc("import_shows", {
+      inserts: plan.toInsert.map(({ row, show }) => ({ ...showToInsert(show), row })),
+      updates: plan.toUpdate.map(({ row, existing, incoming }) => ({ ...showToInsert(incoming), id: existing.id, row })),
+      delete_ids: mode === "replace" ? plan.untouched.map((show) => show.id) : [],
+    })
 
     if (error) {
-      console.error("Supabase insert error:", error)
+      console.error("Supabase import error:", error)
+      // import_shows puts the failing row number in DETAIL
+      const row = Number(error.details) || undefined
+      const failedShow = row ? shows[row - 1] : undefined
       return NextResponse.json({ 
-        error: `Failed to insert shows: ${formatSupabaseError(error)}` 
-      }, { status: 500 })
+        error: `Import rolled back, no changes were made: ${error.message}`,
+        ...(row && { row, show: failedShow }),
+      }, { status: row ? 400 : 500 })
     }
 
-    return NextResponse.json({ shows: data, count: data?.length || 0 })
+    return NextResponse.json(summarizeImportPlan(plan, mode))
   } catch (error) {
     console.error("API error:", error)
-    const errorMessage = error instanceof Error ? error.message : "Failed to update shows"
+    const errorMessage = error instanceof Error ? error.message : "Failed to import shows"
     return NextResponse.json({ error: errorMessage }, { status: 500 })
   }
 }
@@ -210,8 +284,14 @@ export async function PUT(request: NextRequest) {
 // PATCH - Update a single show
 export async function PATCH(request: NextRequest) {
   try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
     const body = await request.json()
-    const { id, ...showData }: Show & { id: string } = body
+    const { id, ...showData }: ShowUpdate = body
 
     if (!id) {
       return NextResponse.json({ error: "Show ID is required" }, { status: 400 })
@@ -225,6 +305,29 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    const costValidation = validateCosts(showData)
+    if (!costValidation.valid) {
+      return NextResponse.json({ error: costValidation.error }, { status: 400 })
+    }
+
+    // Editing a field confirms it; fields parsed from an email that were not edited stay flagged
+    const { data: current, error: currentError } = await supabase
+      .from("shows")
+      .select("uncertain_fields")
+      .eq("id", id)
+      .maybeSingle()
+
+    if (currentError) {
+      console.error("Supabase error:", currentError)
+      return NextResponse.json({ error: `Failed to update show: ${formatSupabaseError(currentError)}` }, { status: 500 })
+    }
+    if (!current) {
+      return NextResponse.json({ error: "Show not found" }, { status: 404 })
+    }
+    const uncertainFields = ((current as Pick<DbRow, "uncertain_fields">).uncertain_fields ?? []).filter(
+      (field) => !(field in showData)
+    )
+
     // Transform Show type to database format
     // Build update object with only defined fields
     const updateData: Database["public"]["Tables"]["shows"]["Update"] = {
@@ -237,6 +340,14 @@ export async function PATCH(request: NextRequest) {
       ...(showData.ticketLocation !== undefined && { ticket_location: showData.ticketLocation }),
       ...(showData.attendance !== undefined && { attendance: showData.attendance }),
       ...(showData.note !== undefined && { note: showData.note || null }),
+      ...(showData.orderNumber !== undefined && { order_number: showData.orderNumber || null }),
+      ...(showData.quantity !== undefined && { quantity: showData.quantity || null }),
+      ...(showData.seat !== undefined && { seat: showData.seat || null }),
+      ...(showData.price !== undefined && { price: showData.price ?? null }),
+      ...(showData.fees !== undefined && { fees: showData.fees ?? null }),
+      ...(showData.currency !== undefined && { currency: showData.currency || null }),
+      ...(showData.doorTime !== undefined && { door_time: showData.doorTime || null }),
+      uncertain_fields: uncertainFields,
     }
 
     // Type assertion needed due to Supabase's type inference limitations with conditional object spreads
@@ -273,4 +384,42 @@ export async function PATCH(request: NextRequest) {
     const errorMessage = error instanceof Error ? error.message : "Failed to update show"
     return NextResponse.json({ error: errorMessage }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// DELETE - Soft-delete one show ({ id }) or several ({ ids }). Undo via POST /api/shows/restore.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body = await request.json()
+    const ids = getIdsFromBody(body)
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: "Show ID is required" }, { status: 400 })
+    }
+
+    const { data, error } = await setShowsDeleted(supabase, ids, true)
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ 
+        error: `Failed to delete shows: ${formatSupabaseError(error)}` 
+      }, { status: 500 })
+    }
+
+    const deletedIds = ((data as { id: string }[]) || []).map((row) => row.id)
+    if (deletedIds.length === 0) {
+      return NextResponse.json({ error: "Show not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ ids: deletedIds, count: deletedIds.length })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to delete shows"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError, selectShows } from "@/lib/shows-db"
+
+/**
+ * GET /api/shows/summary?year=
+ *
+ * The years the dashboard offers (first to last year with a show) and the year's show counts, so
+ * the dashboard does not need every show to draw its header.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const year = request.nextUrl.searchParams.get("year") || undefined
+    if (year && !/^\d{4}$/.test(year)) {
+      return NextResponse.json({ error: `Invalid year: ${year}` }, { status: 400 })
+    }
+
+    const [first, last, total, upcoming, attended] = await Promise.all([
+      supabase.from("shows").select("date").is("deleted_at", null).order("date", { ascending: true }).limit(1),
+      supabase.from("shows").select("date").is("deleted_at", null).order("date", { ascending: false }).limit(1),
+      selectShows(supabase, { year }, { head: true }),
+      selectShows(supabase, { year, attendance: "Upcoming" }, { head: true }),
+      selectShows(supabase, { year, attendance: "Attended" }, { head: true }),
+    ])
+
+    const error = [first, last, total, upcoming, attended].find((result) => result.error)?.error
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load summary: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    const firstYear = Number(((first.data as { date: string }[]) || [])[0]?.date.slice(0, 4))
+    const lastYear = Number(((last.data as { date: string }[]) || [])[0]?.date.slice(0, 4))
+    const years =
+      firstYear && lastYear ? Array.from({ length: lastYear - firstYear + 1 }, (_, i) => String(firstYear + i)) : []
+
+    return NextResponse.json({
+      years,
+      stats: { total: total.count ?? 0, upcoming: upcoming.count ?? 0, attended: attended.count ?? 0 },
+    })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load summary"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ImageResponse } from "next/og"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { normalizeDate } from "@/lib/shows"
+import { fetchAllShows } from "@/lib/shows-db"
+import { computeShowStats, type NameCount } from "@/lib/show-stats"
+
+const CYAN = "#00e5ff"
+const MAGENTA = "#ff3dcb"
+const MUTED = "#8a8fa3"
+
+// Venues of the same name in different cities are listed apart, so the city is part of the key
+function TopList({ title, items, color }: { title: string; items: (NameCount & { city?: string })[]; color: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1, gap: 8 }}>
+      <div style={{ fontSize: 20, color: MUTED, letterSpacing: 4 }}>{title}</div>
+      {items.length === 0 && <div style={{ fontSize: 26, color: MUTED }}>-</div>}
+      {items.slice(0, 5).map((item, i) => (
+        <div key={`${item.name}|${item.city ?? ""}`} style={{ display: "flex", fontSize: 26, gap: 12 }}>
+          <span style={{ color }}>{i + 1}.</span>
+          <span style={{ flex: 1, overflow: "hidden", whiteSpace: "nowrap", textOverflow: "ellipsis" }}>{item.name}</span>
+          <span style={{ color: MUTED }}>{item.count}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// GET - "Year in review" image (1200x630 PNG) for ?year=YYYY, to share on social media
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const year = request.nextUrl.searchParams.get("year")
+    if (!year || !/^\d{4}$/.test(year)) {
+      return NextResponse.json({ error: "year is required (YYYY)" }, { status: 400 })
+    }
+
+    const stats = computeShowStats(await fetchAllShows(supabase), year, normalizeDate(new Date()))
+    const figures = [
+      { label: "SHOWS", value: stats.attended, color: CYAN },
+      { label: "ARTISTS", value: stats.artistCount, color: MAGENTA },
+      { label: "CITIES", value: stats.cityCount, color: "#4ade80" },
+      { label: "FAVORITE DAY", value: stats.favoriteWeekday ?? "-", color: "#fb923c" },
+    ]
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            width: "100%",
+            height: "100%",
+            padding: 56,
+            gap: 40,
+            background: "#0b0d17",
+            color: "#f2f4ff",
+            fontFamily: "monospace",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between" }}>
+            <div style={{ fontSize: 56, fontWeight: 700, color: CYAN, letterSpacing: 6 }}>SONA</div>
+            <div style={{ fontSize: 40, color: MAGENTA }}>{year} IN REVIEW</div>
+          </div>
+          <div style={{ display: "flex", gap: 24 }}>
+            {figures.map((figure) => (
+              <div
+                key={figure.label}
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  flex: 1,
+                  padding: 20,
+                  border: "2px solid #23283d",
+                  borderRadius: 12,
+                }}
+              >
+                <div style={{ fontSize: 52, fontWeight: 700, color: figure.color }}>{figure.value}</div>
+                <div style={{ fontSize: 18, color: MUTED, letterSpacing: 4 }}>{figure.label}</div>
+              </div>
+            ))}
+          </div>
+          <div style={{ display: "flex", gap: 48 }}>
+            <TopList title="MOST SEEN" items={stats.topArtists} color={CYAN} />
+            <TopList title="TOP VENUES" items={stats.topVenues} color={MAGENTA} />
+          </div>
+        </div>
+      ),
+      { width: 1200, height: 630 }
+    )
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to render year in review"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { normalizeDate } from "@/lib/shows"
+import { fetchAllShows } from "@/lib/shows-db"
+import { computeShowStats } from "@/lib/show-stats"
+
+// GET - Statistics over all shows, or one year's (?year=YYYY)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const year = request.nextUrl.searchParams.get("year") || null
+    if (year && !/^\d{4}$/.test(year)) {
+      return NextResponse.json({ error: `Invalid year: ${year}` }, { status: 400 })
+    }
+
+    const shows = await fetchAllShows(supabase)
+    return NextResponse.json({ stats: computeShowStats(shows, year, normalizeDate(new Date())) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load statistics"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { fetchAllShows } from "@/lib/shows-db"
+import { computeSpending } from "@/lib/spending"
+
+// GET - Spending per year, vendor and artist over all shows, or one year's (?year=YYYY), in the currencies paid
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const year = request.nextUrl.searchParams.get("year") || null
+    if (year && !/^\d{4}$/.test(year)) {
+      return NextResponse.json({ error: `Invalid year: ${year}` }, { status: 400 })
+    }
+
+    const shows = await fetchAllShows(supabase)
+    return NextResponse.json({ spending: computeSpending(shows, year) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load spending"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestAuth } from "@/lib/supabase-server"
+import { formatSupabaseError } from "@/lib/shows-db"
+import { VENUE_SELECT, venueFromRow, parseVenueUpdate, fetchEntityKeys, fetchStoredName, updateNames, type VenueUpdate } from "@/lib/entities"
+
+// GET - The signed-in user's venues with their aliases, address and location, and number of shows
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const { data, error } = await supabase
+      .from("venues")
+      .select(VENUE_SELECT)
+      .is("shows.deleted_at", null)
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to load venues: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ venues: (data || []).map(venueFromRow) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to load venues"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+// PATCH - Change a venue ({ id, name?, aliases?, address?, city?, country?, latitude?, longitude? }); renaming it
+// or moving it to another city changes its shows too
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+    const { supabase } = auth
+
+    const body: VenueUpdate = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Venue ID is required" }, { status: 400 })
+    }
+
+    // Aliases are compared by the keys the shows_link_entities trigger matches with, and against
+    // the saved name when the body doesn't rename
+    const storedName = await fetchStoredName(supabase, "venues", body)
+    const keyOf = await fetchEntityKeys(supabase, updateNames(body, storedName))
+    const parsed = parseVenueUpdate(body, keyOf, storedName)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("venues")
+      .update(parsed.update)
+      .eq("id", body.id)
+      .is("shows.deleted_at", null)
+      .select(VENUE_SELECT)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Supabase error:", error)
+      return NextResponse.json({ error: `Failed to update venue: ${formatSupabaseError(error)}` }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Venue not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ venue: venueFromRow(data) })
+  } catch (error) {
+    console.error("API error:", error)
+    const errorMessage = error instanceof Error ? error.message : "Failed to update venue"
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
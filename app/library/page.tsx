@@ -0,0 +1,149 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft } from "lucide-react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import type { Artist, Venue } from "@/lib/entities"
+import { fetchArtists, fetchVenues, mergeArtists, mergeVenues, updateArtist, updateVenue } from "@/lib/entities-api"
+import { ArtistForm, EntityList, VenueForm } from "@/components/entity-list"
+import { SignIn } from "@/components/sign-in"
+
+const TABS = [
+  { value: "artists", label: "Artists" },
+  { value: "venues", label: "Venues" },
+] as const
+
+function describeVenue(venue: Venue): string {
+  return [venue.city, venue.country].filter(Boolean).join(", ")
+}
+
+/** The artists and venues shows link to: rename them, add aliases and venue details, merge duplicates. */
+export default function LibraryPage() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [isAuthLoading, setIsAuthLoading] = useState(true)
+  const [tab, setTab] = useState<(typeof TABS)[number]["value"]>("artists")
+  const [artists, setArtists] = useState<Artist[]>([])
+  const [venues, setVenues] = useState<Venue[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsAuthLoading(false)
+    })
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession))
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const userId = session?.user.id
+
+  const reload = useCallback(async () => {
+    try {
+      const [artistList, venueList] = await Promise.all([fetchArtists(), fetchVenues()])
+      setArtists(artistList)
+      setVenues(venueList)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load artists and venues")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (userId) reload()
+  }, [userId, reload])
+
+  if (isAuthLoading) return null
+  if (!session) return <SignIn />
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1
+              className="text-2xl font-bold tracking-wider text-neon-cyan font-mono"
+              style={{ textShadow: "0 0 20px oklch(0.72 0.21 195 / 0.5)" }}
+            >
+              ARTISTS & VENUES
+            </h1>
+            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wider mt-1">
+              Merge duplicates so history and stats count them as one
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm" className="font-mono text-xs">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Shows
+            </Link>
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1.5 rounded-md font-mono text-xs transition-all ${
+                tab === value
+                  ? "bg-primary/20 text-primary border border-primary/50"
+                  : "text-muted-foreground hover:text-foreground border border-transparent"
+              }`}
+            >
+              {label} ({value === "artists" ? artists.length : venues.length})
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+        {tab === "artists" ? (
+          <EntityList
+            key="artists"
+            kind="artist"
+            items={artists}
+            onMerge={async (targetId, ids) => {
+              await mergeArtists(targetId, ids)
+              await reload()
+            }}
+            renderEditor={(artist, close) => (
+              <ArtistForm
+                artist={artist}
+                onSave={async (update) => {
+                  await updateArtist(update)
+                  close()
+                  await reload()
+                }}
+              />
+            )}
+          />
+        ) : (
+          <EntityList
+            key="venues"
+            kind="venue"
+            items={venues}
+            describe={describeVenue}
+            onMerge={async (targetId, ids) => {
+              await mergeVenues(targetId, ids)
+              await reload()
+            }}
+            renderEditor={(venue, close) => (
+              <VenueForm
+                venue={venue}
+                onSave={async (update) => {
+                  await updateVenue(update)
+                  close()
+                  await reload()
+                }}
+              />
+            )}
+          />
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,17 +1,73 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useMemo, useEffect, useCallback } from "react"
+import Link from "next/link"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Search, MapPin, Ticket, FileText, Plus, Upload, X, Edit } from "lucide-react"
-import { parseGoogleSheetsCSV, getDayOfWeek, type Show } from "@/lib/shows"
-import { fetchShows, createShow, importShows, updateShow } from "@/lib/shows-api"
+import { Search, MapPin, Ticket, FileText, Plus, Upload, X, Edit, Trash2, Undo2, Download, LogOut, CalendarPlus, Mail, Inbox, BarChart3, Library } from "lucide-react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import {
+  ATTENDANCE_FILTERS,
+  ATTENDANCE_STATUSES,
+  DEFAULT_PAGE_SIZE,
+  EXPORT_FORMATS,
+  SHOW_SORTS,
+  formatPrice,
+  getDayOfWeek,
+  normalizeDate,
+  parseGoogleSheetsCSVWithErrors,
+  type AttendanceFilter,
+  type CSVRowError,
+  type ExportFormat,
+  type Show,
+  type ShowAttachment,
+  type ShowQuery,
+  type ShowSort,
+  type ShowUpdate,
+} from "@/lib/shows"
+import {
+  fetchShows,
+  fetchShowSummary,
+  createShow,
+  deleteShow,
+  downloadAttachment,
+  downloadExport,
+  importShows,
+  previewImport,
+  restoreShows,
+  updateShow,
+  type ShowSummary,
+} from "@/lib/shows-api"
+import type { ImportMode, ImportPreview, ImportSummary } from "@/lib/show-import"
+import { fetchProfile, getCalendarFeedUrl, type Profile } from "@/lib/profile-api"
+import { ImportPreviewPanel, ImportSummaryBadges } from "@/components/import-preview"
+import { SignIn } from "@/components/sign-in"
+import { InboundSettings } from "@/components/inbound-settings"
+import { PendingEmailsPanel } from "@/components/pending-emails"
+import { fetchPendingEmails, type PendingEmail } from "@/lib/pending-emails-api"
 
 // Constants
-const ATTENDANCE_STATUSES = ["NOT YET", "YES", "NO", "CANCELLED", "POSTPONED"] as const
-const ATTENDANCE_FILTERS = ["All", "Attended", "Not Attended", "Upcoming"] as const
+const SORT_LABELS: Record<ShowSort, string> = {
+  relevance: "Best match",
+  date: "Date (oldest first)",
+  "-date": "Date (newest first)",
+  show: "Show",
+  city: "City",
+  venue: "Venue",
+}
+// Wait for a pause in typing before searching on the server
+const SEARCH_DEBOUNCE_MS = 300
+// How long the "Undo" bar stays visible after deleting a show
+const UNDO_WINDOW_MS = 10000
+// Highlights show fields the email parser was unsure about (see Show.uncertainFields)
+const UNCERTAIN_CLASS = "text-neon-orange underline decoration-dotted underline-offset-4"
+const IMPORT_MODES: { value: ImportMode; label: string }[] = [
+  { value: "merge", label: "Merge" },
+  { value: "replace", label: "Replace all" },
+]
 
 // Helper function to extract show data from form
 function extractShowFromForm(form: HTMLFormElement): Omit<Show, "id"> | null {
@@ -39,21 +95,20 @@ function extractShowFromForm(form: HTMLFormElement): Omit<Show, "id"> | null {
     return null
   }
 
-  return show
-}
-
-// Helper function to normalize date (set hours to 0)
-function normalizeDate(date: Date | string): Date {
-  const d = typeof date === "string" ? new Date(date) : date
-  d.setHours(0, 0, 0, 0)
-  return d
-}
+  const price = (formData.get("price") as string).trim()
+  const fees = (formData.get("fees") as string).trim()
+  const currency = (formData.get("currency") as string).trim().toUpperCase()
+  const quantity = (formData.get("quantity") as string).trim()
+  if (currency && !/^[A-Z]{3}$/.test(currency)) {
+    alert("Please enter the currency as a three-letter code, e.g. EUR.")
+    return null
+  }
+  if (price) show.price = Number(price)
+  if (fees) show.fees = Number(fees)
+  if (currency) show.currency = currency
+  if (quantity) show.quantity = Number(quantity)
 
-// Helper function to check if show is upcoming
-function isUpcoming(show: Show, today: Date): boolean {
-  if (show.attendance !== "NOT YET") return false
-  const showDate = normalizeDate(show.date)
-  return showDate >= today
+  return show
 }
 
 // Attendance Badge Component
@@ -113,50 +168,147 @@ function AttendanceBadge({ show, today }: { show: Show; today: Date }) {
 }
 
 export default function ShowTracker() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [isAuthLoading, setIsAuthLoading] = useState(true)
+  const [profile, setProfile] = useState<Profile | null>(null)
   const [shows, setShows] = useState<Show[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [summary, setSummary] = useState<ShowSummary | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
-  const [attendedFilter, setAttendedFilter] = useState<(typeof ATTENDANCE_FILTERS)[number]>("All")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [attendedFilter, setAttendedFilter] = useState<AttendanceFilter>("All")
+  // Unset: best match first while searching, otherwise by date
+  const [sortOrder, setSortOrder] = useState<ShowSort | undefined>()
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString())
   const [showAddForm, setShowAddForm] = useState(false)
   const [showImportForm, setShowImportForm] = useState(false)
+  const [showInboundSettings, setShowInboundSettings] = useState(false)
+  const [showPendingEmails, setShowPendingEmails] = useState(false)
+  const [pendingEmails, setPendingEmails] = useState<PendingEmail[]>([])
   const [editingShow, setEditingShow] = useState<Show | null>(null)
   const [importText, setImportText] = useState("")
+  const [importMode, setImportMode] = useState<ImportMode>("merge")
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [importErrors, setImportErrors] = useState<CSVRowError[]>([])
+  const [pendingImport, setPendingImport] = useState<Show[] | null>(null)
+  const [recentlyDeleted, setRecentlyDeleted] = useState<Show | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Load shows from API on mount
+  // Track the Supabase Auth session
   useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsAuthLoading(false)
+    })
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession))
+    return () => subscription.unsubscribe()
+  }, [])
+
+  // Token refreshes replace the session object, so only reload when the user changes
+  const userId = session?.user.id
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // The page of shows the dashboard displays; filtering, sorting and paging happen on the server
+  const showQuery = useMemo<ShowQuery>(
+    () => ({ year: selectedYear, attendance: attendedFilter, search: debouncedSearch, sort: sortOrder, limit: DEFAULT_PAGE_SIZE }),
+    [selectedYear, attendedFilter, debouncedSearch, sortOrder]
+  )
+
+  // Reload the first page and the year summary, e.g. after a show was added or changed
+  const reloadShows = useCallback(async () => {
+    const [page, yearSummary] = await Promise.all([fetchShows(showQuery), fetchShowSummary(showQuery.year)])
+    setShows(page.shows)
+    setNextCursor(page.nextCursor)
+    setSummary(yearSummary)
+  }, [showQuery])
+
+  // Load the signed-in user's shows from API
+  useEffect(() => {
+    if (!userId) {
+      setShows([])
+      setNextCursor(null)
+      setSummary(null)
+      return
+    }
+    let cancelled = false
     const loadShows = async () => {
       try {
         setIsLoading(true)
         setError(null)
-        const data = await fetchShows()
-        setShows(data)
+        const [page, yearSummary] = await Promise.all([fetchShows(showQuery), fetchShowSummary(showQuery.year)])
+        // Filters changed while loading: a newer request is on its way
+        if (cancelled) return
+        setShows(page.shows)
+        setNextCursor(page.nextCursor)
+        setSummary(yearSummary)
       } catch (err) {
+        if (cancelled) return
         setError("Failed to load shows. Please refresh the page.")
         console.error("Error loading shows:", err)
       } finally {
-        setIsLoading(false)
+        if (!cancelled) setIsLoading(false)
       }
     }
     loadShows()
-  }, [])
+    return () => {
+      cancelled = true
+    }
+  }, [userId, showQuery])
 
-  // Update selected year based on available data
+  // Profile and review inbox do not depend on the filters
   useEffect(() => {
-    if (shows.length > 0) {
-      const years = new Set(shows.map((show) => show.date.substring(0, 4)))
-      const sortedYears = Array.from(years).sort()
-      if (sortedYears.length > 0 && !sortedYears.includes(selectedYear)) {
-        setSelectedYear(sortedYears[sortedYears.length - 1])
-      }
+    if (!userId) {
+      setProfile(null)
+      setPendingEmails([])
+      return
     }
-  }, [shows, selectedYear])
+    fetchProfile()
+      .then(setProfile)
+      .catch((err) => console.error("Error loading profile:", err))
+    fetchPendingEmails()
+      .then(setPendingEmails)
+      .catch((err) => console.error("Error loading pending emails:", err))
+  }, [userId])
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+    try {
+      setIsLoadingMore(true)
+      const page = await fetchShows({ ...showQuery, cursor: nextCursor })
+      setShows((current) => [...current, ...page.shows])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load more shows"
+      alert(`Failed to load more shows: ${errorMessage}`)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  // Close the undo window after a short delay
+  useEffect(() => {
+    if (!recentlyDeleted) return
+    const timeout = setTimeout(() => setRecentlyDeleted(null), UNDO_WINDOW_MS)
+    return () => clearTimeout(timeout)
+  }, [recentlyDeleted])
 
-  const years = useMemo(() => {
-    const yearSet = new Set(shows.map((show) => show.date.substring(0, 4)))
-    return Array.from(yearSet).sort()
-  }, [shows])
+  const years = useMemo(() => summary?.years ?? [], [summary])
+
+  // Update selected year based on available data
+  useEffect(() => {
+    if (years.length > 0 && !years.includes(selectedYear)) {
+      setSelectedYear(years[years.length - 1])
+    }
+  }, [years, selectedYear])
 
   // Memoize today's date to avoid recalculating
   const today = useMemo(() => {
@@ -165,65 +317,38 @@ export default function ShowTracker() {
     return date
   }, [])
 
-  const filteredShows = useMemo(() => {
-    const searchLower = searchQuery.toLowerCase()
-    return shows.filter((show) => {
-      const matchesSearch =
-        show.show.toLowerCase().includes(searchLower) ||
-        show.city.toLowerCase().includes(searchLower) ||
-        show.venue.toLowerCase().includes(searchLower)
-
-      const isAttended = show.attendance === "YES"
-      const isNotAttended = show.attendance === "NO" || show.attendance === "CANCELLED" || show.attendance === "POSTPONED"
-      const showIsUpcoming = isUpcoming(show, today)
-
-      const matchesAttended =
-        attendedFilter === "All" ||
-        (attendedFilter === "Attended" && isAttended) ||
-        (attendedFilter === "Not Attended" && isNotAttended) ||
-        (attendedFilter === "Upcoming" && showIsUpcoming)
-      const matchesYear = show.date.startsWith(selectedYear)
-
-      return matchesSearch && matchesAttended && matchesYear
-    })
-  }, [shows, searchQuery, attendedFilter, selectedYear, today])
-
-  const stats = useMemo(() => {
-    const yearShows = shows.filter((show) => show.date.startsWith(selectedYear))
-    const attended = yearShows.filter((show) => show.attendance === "YES").length
-    const upcoming = yearShows.filter((show) => isUpcoming(show, today)).length
+  const stats = summary?.stats ?? { total: 0, upcoming: 0, attended: 0 }
 
-    return {
-      total: yearShows.length,
-      upcoming,
-      attended,
-    }
-  }, [shows, selectedYear, today])
+  // Discard a preview once the CSV or mode it was computed for changes
+  const resetImportPreview = () => {
+    setImportPreview(null)
+    setImportErrors([])
+    setPendingImport(null)
+  }
 
-  const handleImport = async () => {
+  const handlePreviewImport = async () => {
     if (!importText.trim()) {
       alert("Please paste CSV data to import.")
       return
     }
     try {
-      const imported = parseGoogleSheetsCSV(importText)
-      if (imported.length > 0) {
-        try {
-          // Import shows (PUT endpoint deletes all existing shows first, then inserts new ones)
-          await importShows(imported)
-          // Reload shows from API
-          const data = await fetchShows()
-          setShows(data)
-          setImportText("")
-          setShowImportForm(false)
-          alert(`Successfully imported ${imported.length} shows!`)
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : "Failed to save imported shows"
-          alert(`Failed to import shows: ${errorMessage}`)
-          console.error("Save error:", error)
-        }
-      } else {
+      const { shows: parsed, errors } = parseGoogleSheetsCSVWithErrors(importText)
+      setImportSummary(null)
+      setImportErrors(errors)
+      if (parsed.length === 0) {
+        setImportPreview(null)
+        setPendingImport(null)
         alert("No valid shows found in the imported data. Please check the CSV format.")
+        return
+      }
+      try {
+        const preview = await previewImport(parsed, importMode)
+        setImportPreview(preview)
+        setPendingImport(parsed)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to preview import"
+        alert(`Failed to preview import: ${errorMessage}`)
+        console.error("Preview error:", error)
       }
     } catch (error) {
       alert("Error importing data. Please check the CSV format and try again.")
@@ -231,6 +356,22 @@ export default function ShowTracker() {
     }
   }
 
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return
+    try {
+      const summary = await importShows(pendingImport, importMode)
+      // Reload shows from API
+      await reloadShows()
+      setImportText("")
+      resetImportPreview()
+      setImportSummary(summary)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save imported shows"
+      alert(`Failed to import shows: ${errorMessage}`)
+      console.error("Save error:", error)
+    }
+  }
+
   const handleAddShow = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     const form = e.currentTarget
@@ -241,8 +382,7 @@ export default function ShowTracker() {
 
     try {
       await createShow(newShow)
-      const data = await fetchShows()
-      setShows(data)
+      await reloadShows()
       form.reset()
       setShowAddForm(false)
     } catch (error) {
@@ -260,15 +400,19 @@ export default function ShowTracker() {
     const showData = extractShowFromForm(form)
     if (!showData) return
 
-    const updatedShow: Show & { id: string } = {
+    // Emptied cost fields are sent as null so the saved values are cleared
+    const updatedShow: ShowUpdate = {
       ...showData,
       id: editingShow.id,
+      price: showData.price ?? null,
+      fees: showData.fees ?? null,
+      currency: showData.currency ?? null,
+      quantity: showData.quantity ?? null,
     }
 
     try {
       await updateShow(updatedShow)
-      const data = await fetchShows()
-      setShows(data)
+      await reloadShows()
       setEditingShow(null)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to update show"
@@ -277,6 +421,71 @@ export default function ShowTracker() {
     }
   }
 
+  const handleDeleteShow = async () => {
+    if (!editingShow?.id) return
+    const deleted = editingShow
+
+    try {
+      await deleteShow(deleted.id!)
+      setShows((current) => current.filter((show) => show.id !== deleted.id))
+      fetchShowSummary(selectedYear)
+        .then(setSummary)
+        .catch((err) => console.error("Error loading summary:", err))
+      setEditingShow(null)
+      setRecentlyDeleted(deleted)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete show"
+      alert(`Failed to delete show: ${errorMessage}`)
+      console.error("Delete error:", error)
+    }
+  }
+
+  const handleUndoDelete = async () => {
+    if (!recentlyDeleted?.id) return
+
+    try {
+      await restoreShows([recentlyDeleted.id])
+      await reloadShows()
+      setRecentlyDeleted(null)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to restore show"
+      alert(`Failed to restore show: ${errorMessage}`)
+      console.error("Restore error:", error)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await downloadExport(format, showQuery)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to export shows"
+      alert(`Failed to export shows: ${errorMessage}`)
+    }
+  }
+
+  const handleDownloadAttachment = async (attachment: ShowAttachment) => {
+    try {
+      await downloadAttachment(attachment)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to download ticket"
+      alert(`Failed to download ticket: ${errorMessage}`)
+    }
+  }
+
+  const handleCopyCalendarLink = async () => {
+    if (!profile?.calendarToken) return
+    const url = getCalendarFeedUrl(profile.calendarToken)
+    try {
+      await navigator.clipboard.writeText(url)
+      alert("Calendar feed link copied. Add it to your calendar app as a subscription.")
+    } catch {
+      prompt("Copy this calendar feed link:", url)
+    }
+  }
+
+  if (isAuthLoading) return null
+  if (!session) return <SignIn />
+
   return (
     <div className="flex flex-col md:flex-row h-screen bg-background overflow-hidden">
       {/* Mobile Header */}
@@ -304,6 +513,15 @@ export default function ShowTracker() {
               {year}
             </button>
           ))}
+          <Button
+            onClick={() => supabase.auth.signOut()}
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
+            aria-label="Sign out"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
         </div>
       </div>
 
@@ -349,6 +567,22 @@ export default function ShowTracker() {
               <span>MODE</span>
               <span className="text-neon-magenta">TRACKING</span>
             </div>
+            <div className="flex justify-between gap-2 text-muted-foreground">
+              <span>USER</span>
+              <span className="text-foreground truncate" title={session.user.email}>{session.user.email}</span>
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            {profile?.calendarToken && (
+              <Button onClick={handleCopyCalendarLink} variant="outline" size="sm" className="flex-1 font-mono text-xs">
+                <CalendarPlus className="w-4 h-4 mr-1" />
+                Calendar
+              </Button>
+            )}
+            <Button onClick={() => supabase.auth.signOut()} variant="ghost" size="sm" className="flex-1 font-mono text-xs">
+              <LogOut className="w-4 h-4 mr-1" />
+              Sign Out
+            </Button>
           </div>
         </div>
       </aside>
@@ -390,6 +624,39 @@ export default function ShowTracker() {
                 </div>
               </div>
               <div className="flex gap-2">
+                <Button asChild variant="outline" size="sm" className="font-mono text-xs">
+                  <Link href="/library">
+                    <Library className="w-4 h-4 mr-1" />
+                    Library
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" size="sm" className="font-mono text-xs">
+                  <Link href="/stats">
+                    <BarChart3 className="w-4 h-4 mr-1" />
+                    Stats
+                  </Link>
+                </Button>
+                <Button
+                  onClick={() => setShowPendingEmails(!showPendingEmails)}
+                  variant="outline"
+                  size="sm"
+                  className="font-mono text-xs"
+                >
+                  <Inbox className="w-4 h-4 mr-1" />
+                  Review
+                  {pendingEmails.length > 0 && (
+                    <span className="ml-1 text-neon-orange">({pendingEmails.length})</span>
+                  )}
+                </Button>
+                <Button
+                  onClick={() => setShowInboundSettings(!showInboundSettings)}
+                  variant="outline"
+                  size="sm"
+                  className="font-mono text-xs"
+                >
+                  <Mail className="w-4 h-4 mr-1" />
+                  Email
+                </Button>
                 <Button
                   onClick={() => setShowImportForm(!showImportForm)}
                   variant="outline"
@@ -415,6 +682,25 @@ export default function ShowTracker() {
             </div>
           </div>
 
+          {/* Inbound Email Settings */}
+          {showInboundSettings && (
+            <InboundSettings
+              inboundAddress={profile?.inboundAddress ?? null}
+              onShowsCreated={reloadShows}
+              onClose={() => setShowInboundSettings(false)}
+            />
+          )}
+
+          {/* Emails held for review */}
+          {showPendingEmails && (
+            <PendingEmailsPanel
+              pendingEmails={pendingEmails}
+              onResolved={(id) => setPendingEmails((current) => current.filter((email) => email.id !== id))}
+              onShowCreated={reloadShows}
+              onClose={() => setShowPendingEmails(false)}
+            />
+          )}
+
           {/* Import Form */}
           {showImportForm && (
             <Card className="p-4 md:p-6 bg-card/50 backdrop-blur-sm border-border/50">
@@ -425,6 +711,8 @@ export default function ShowTracker() {
                     onClick={() => {
                       setShowImportForm(false)
                       setImportText("")
+                      setImportSummary(null)
+                      resetImportPreview()
                     }}
                     variant="ghost"
                     size="sm"
@@ -434,18 +722,61 @@ export default function ShowTracker() {
                   </Button>
                 </div>
                 <p className="text-sm text-muted-foreground font-mono">
-                        Export your Google Sheet as CSV, then paste it here. The format should be: SHØW, DATE, DOTW (optional), CITY,
-                  VENUE, TICKET, TICKET VENDOR, TICKET LOCATION, ATTENDED, NOTE
+                        Export your Google Sheet as CSV, then paste it here. Columns are matched by their header, in any order:
+                  SHØW, DATE, CITY, VENUE (required), DOTW, TICKET, TICKET VENDOR, TICKET LOCATION, ATTENDED, NOTE, PRICE, FEES, CURRENCY, QUANTITY
                 </p>
                 <textarea
                   value={importText}
-                  onChange={(e) => setImportText(e.target.value)}
+                  onChange={(e) => {
+                    setImportText(e.target.value)
+                    resetImportPreview()
+                  }}
                   placeholder="Paste CSV data here..."
                   className="w-full min-h-[200px] px-3 py-2 rounded-md bg-input/50 border border-border/50 text-foreground focus:border-primary/50 focus:outline-none focus:shadow-[0_0_10px_rgba(0,255,255,0.2)] transition-all font-mono text-xs"
                 />
-                <Button onClick={handleImport} className="font-mono text-xs">
-                  Import Shows
-                </Button>
+                <div className="flex flex-wrap items-center gap-2">
+                  {IMPORT_MODES.map(({ value, label }) => (
+                    <Button
+                      key={value}
+                      onClick={() => {
+                        setImportMode(value)
+                        resetImportPreview()
+                      }}
+                      variant={importMode === value ? "default" : "outline"}
+                      size="sm"
+                      className={`text-xs ${
+                        importMode === value
+                          ? "bg-primary/20 text-primary border-primary/50 hover:bg-primary/30 shadow-[0_0_10px_rgba(0,255,255,0.2)]"
+                          : "border-border/50 hover:border-primary/30 hover:text-primary"
+                      }`}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {importMode === "merge"
+                      ? "Adds new shows and updates matching ones (same show, date and venue). Nothing is deleted."
+                      : "Also deletes every existing show that is not in the CSV."}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handlePreviewImport} variant={pendingImport ? "outline" : "default"} className="font-mono text-xs">
+                    Preview Import
+                  </Button>
+                  {pendingImport && (
+                    <Button onClick={handleConfirmImport} className="font-mono text-xs">
+                      Confirm Import
+                    </Button>
+                  )}
+                </div>
+                {(importPreview || importErrors.length > 0) && (
+                  <ImportPreviewPanel preview={importPreview} errors={importErrors} />
+                )}
+                {importSummary && (
+                  <div className="pt-2 border-t border-border/30">
+                    <ImportSummaryBadges summary={importSummary} />
+                  </div>
+                )}
               </div>
             </Card>
           )}
@@ -532,14 +863,36 @@ export default function ShowTracker() {
                       ))}
                     </select>
                   </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Price</label>
+                    <Input name="price" type="number" min="0" step="0.01" placeholder="All tickets" key={`price-${editingShow.id || editingShow.date}`} defaultValue={editingShow.price ?? ""} className="font-mono text-base md:text-xs" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Fees</label>
+                    <Input name="fees" type="number" min="0" step="0.01" placeholder="Booking and service fees" key={`fees-${editingShow.id || editingShow.date}`} defaultValue={editingShow.fees ?? ""} className="font-mono text-base md:text-xs" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Currency</label>
+                    <Input name="currency" maxLength={3} placeholder="EUR" key={`currency-${editingShow.id || editingShow.date}`} defaultValue={editingShow.currency ?? ""} className="font-mono text-base md:text-xs uppercase" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Quantity</label>
+                    <Input name="quantity" type="number" min="1" step="1" key={`quantity-${editingShow.id || editingShow.date}`} defaultValue={editingShow.quantity ?? ""} className="font-mono text-base md:text-xs" />
+                  </div>
                   <div className="space-y-2 md:col-span-2">
                     <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Note</label>
                     <Input name="note" key={`note-${editingShow.id || editingShow.date}`} defaultValue={editingShow.note || ""} className="font-mono text-base md:text-xs" />
                   </div>
                 </div>
-                <Button type="submit" className="font-mono text-xs">
-                  Update Show
-                </Button>
+                <div className="flex justify-between gap-2">
+                  <Button type="submit" className="font-mono text-xs">
+                    Update Show
+                  </Button>
+                  <Button type="button" onClick={handleDeleteShow} variant="destructive" className="font-mono text-xs">
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete Show
+                  </Button>
+                </div>
               </form>
             </Card>
           )}
@@ -622,6 +975,22 @@ export default function ShowTracker() {
                       ))}
                     </select>
                   </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Price</label>
+                    <Input name="price" type="number" min="0" step="0.01" placeholder="All tickets" className="font-mono text-base md:text-xs" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Fees</label>
+                    <Input name="fees" type="number" min="0" step="0.01" placeholder="Booking and service fees" className="font-mono text-base md:text-xs" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Currency</label>
+                    <Input name="currency" maxLength={3} placeholder="EUR" className="font-mono text-base md:text-xs uppercase" />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Quantity</label>
+                    <Input name="quantity" type="number" min="1" step="1" className="font-mono text-base md:text-xs" />
+                  </div>
                   <div className="space-y-2 md:col-span-2">
                     <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Note</label>
                     <Input name="note" className="font-mono text-base md:text-xs" />
@@ -642,14 +1011,14 @@ export default function ShowTracker() {
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
                   type="text"
-                  placeholder="Search by show, city, venue…"
+                  placeholder="Search shows, cities, venues, notes… (city:Berlin year:2024 status:attended)"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10 bg-input/50 border-border/50 focus:border-primary/50 focus:shadow-[0_0_10px_rgba(0,255,255,0.2)] transition-all"
                 />
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 {/* Attended Filter */}
                 <div className="space-y-2">
                   <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Attended</label>
@@ -671,6 +1040,42 @@ export default function ShowTracker() {
                     ))}
                   </div>
                 </div>
+
+                {/* Sort */}
+                <div className="space-y-2">
+                  <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Sort</label>
+                  <select
+                    value={sortOrder ?? ""}
+                    onChange={(e) => setSortOrder((e.target.value || undefined) as ShowSort | undefined)}
+                    className="w-full px-3 py-2 rounded-md bg-input/50 border border-border/50 text-foreground focus:border-primary/50 focus:outline-none font-mono text-base md:text-xs"
+                  >
+                    <option value="">Default</option>
+                    {SHOW_SORTS.map((sort) => (
+                      <option key={sort} value={sort}>
+                        {SORT_LABELS[sort]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Export */}
+                <div className="space-y-2">
+                  <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Export</label>
+                  <div className="flex gap-2">
+                    {EXPORT_FORMATS.map((format) => (
+                      <Button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        variant="outline"
+                        size="sm"
+                        className="text-xs font-mono border-border/50 hover:border-primary/30 hover:text-primary"
+                      >
+                        <Download className="w-4 h-4 mr-1" />
+                        {format.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </Card>
@@ -706,8 +1111,7 @@ export default function ShowTracker() {
                           try {
                             setIsLoading(true)
                             setError(null)
-                            const data = await fetchShows()
-                            setShows(data)
+                            await reloadShows()
                           } catch (err) {
                             setError("Failed to load shows. Please refresh the page.")
                           } finally {
@@ -725,7 +1129,7 @@ export default function ShowTracker() {
                 )}
 
                 {/* Show List */}
-                {!isLoading && !error && filteredShows.length === 0 ? (
+                {!isLoading && !error && shows.length === 0 ? (
             <Card className="p-8 md:p-12 bg-card/30 backdrop-blur-sm border-border/50 text-center">
               <div className="space-y-3">
                 <div
@@ -741,8 +1145,9 @@ export default function ShowTracker() {
             </Card>
           ) : (
             <div className="space-y-4">
-              {filteredShows.map((show, index) => {
+              {shows.map((show, index) => {
                 const showDate = normalizeDate(show.date)
+                const uncertain = new Set(show.uncertainFields ?? [])
                 return (
                   <Card
                     key={show.id || index}
@@ -753,7 +1158,7 @@ export default function ShowTracker() {
                         <div className="flex items-start gap-3 md:gap-4">
                           <div className="text-center min-w-[60px] md:min-w-[80px]">
                             <div
-                              className="text-xl md:text-2xl font-bold text-neon-cyan font-mono"
+                              className={`text-xl md:text-2xl font-bold font-mono ${uncertain.has("date") ? UNCERTAIN_CLASS : "text-neon-cyan"}`}
                               style={{ textShadow: "0 0 10px oklch(0.72 0.21 195 / 0.5)" }}
                             >
                               {showDate.getDate()}
@@ -766,7 +1171,9 @@ export default function ShowTracker() {
 
                           <div className="flex-1 space-y-2">
                             <div className="flex items-start justify-between gap-2">
-                              <h3 className="text-lg md:text-xl font-bold text-foreground">{show.show}</h3>
+                              <h3 className={`text-lg md:text-xl font-bold ${uncertain.has("show") ? UNCERTAIN_CLASS : "text-foreground"}`}>
+                                {show.show}
+                              </h3>
                               {show.id && (
                                 <Button
                                   onClick={() => {
@@ -786,17 +1193,46 @@ export default function ShowTracker() {
                           <div className="flex flex-wrap items-center gap-2 md:gap-3 text-xs md:text-sm text-muted-foreground">
                             <div className="flex items-center gap-1">
                               <MapPin className="w-3 h-3 md:w-4 md:h-4 text-neon-magenta" />
-                              <span>{show.city}</span>
+                              <span className={uncertain.has("city") ? UNCERTAIN_CLASS : undefined}>{show.city}</span>
                             </div>
                             <span className="text-border">•</span>
-                            <span className="line-clamp-1">{show.venue}</span>
+                            <span className={`line-clamp-1 ${uncertain.has("venue") ? UNCERTAIN_CLASS : ""}`}>{show.venue}</span>
                           </div>
+                          {show.previousDates && (
+                            <div className="text-xs font-mono text-muted-foreground">
+                              Originally{" "}
+                              {show.previousDates
+                                .map((date) =>
+                                  normalizeDate(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+                                )
+                                .join(", ")}
+                            </div>
+                          )}
+                          {(show.doorTime || show.quantity || show.seat || show.price !== undefined || show.fees !== undefined || show.orderNumber) && (
+                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-mono text-muted-foreground">
+                              {show.doorTime && <span>Doors {show.doorTime}</span>}
+                              {show.quantity && <span>{show.quantity} × ticket{show.quantity === 1 ? "" : "s"}</span>}
+                              {show.seat && <span>{show.seat}</span>}
+                              {show.price !== undefined && <span>{formatPrice(show.price, show.currency)}</span>}
+                              {show.fees !== undefined && <span>+ {formatPrice(show.fees, show.currency)} fees</span>}
+                              {show.orderNumber && <span>Order {show.orderNumber}</span>}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
 
                     <div className="flex flex-wrap items-center gap-2">
                       <AttendanceBadge show={show} today={today} />
+                      {uncertain.size > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="border-neon-orange/50 text-neon-orange bg-neon-orange/10 font-mono text-xs"
+                          title={`Parsed from email, please check: ${Array.from(uncertain).join(", ")}`}
+                        >
+                          CHECK DETAILS
+                        </Badge>
+                      )}
                       {show.ticket === "YES" && (
                         <>
                           {show.ticketVendor && show.ticketVendor.trim() !== "" && (
@@ -815,6 +1251,19 @@ export default function ShowTracker() {
                           )}
                         </>
                       )}
+                      {show.attachments?.map((attachment) => (
+                        <Button
+                          key={attachment.id}
+                          onClick={() => handleDownloadAttachment(attachment)}
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 border-neon-purple/50 text-neon-purple bg-neon-purple/10 font-mono text-xs"
+                          title={`Download ${attachment.filename}`}
+                        >
+                          <Download className="w-3 h-3 mr-1" />
+                          {attachment.contentType === "application/vnd.apple.pkpass" ? "WALLET PASS" : "TICKET PDF"}
+                        </Button>
+                      ))}
                     </div>
                     </div>
 
@@ -835,10 +1284,38 @@ export default function ShowTracker() {
                 </Card>
                   )
                 })}
+              {nextCursor && (
+                <div className="flex justify-center">
+                  <Button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    variant="outline"
+                    size="sm"
+                    className="font-mono text-xs border-border/50 hover:border-primary/30 hover:text-primary"
+                  >
+                    {isLoadingMore ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </div>
       </main>
+
+      {/* Undo Delete */}
+      {recentlyDeleted && (
+        <Card className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-3 bg-card/90 backdrop-blur-sm border-destructive/50 shadow-[0_0_20px_rgba(0,0,0,0.5)]">
+          <div className="flex items-center gap-4 font-mono text-xs">
+            <span className="text-muted-foreground">
+              Deleted <span className="text-foreground">{recentlyDeleted.show}</span>
+            </span>
+            <Button onClick={handleUndoDelete} variant="outline" size="sm" className="font-mono text-xs">
+              <Undo2 className="w-4 h-4 mr-1" />
+              Undo
+            </Button>
+          </div>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,133 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Share2 } from "lucide-react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import type { ShowStats } from "@/lib/show-stats"
+import type { SpendingReport } from "@/lib/spending"
+import { fetchSpending, fetchStats, shareYearInReview } from "@/lib/stats-api"
+import { ShowStatsView } from "@/components/show-stats"
+import { SpendingReportView } from "@/components/spending-report"
+import { SignIn } from "@/components/sign-in"
+
+/** Lifetime statistics and spending, and each year's "year in review" that can be shared as an image. */
+export default function StatsPage() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [isAuthLoading, setIsAuthLoading] = useState(true)
+  // null: all time
+  const [selectedYear, setSelectedYear] = useState<string | null>(null)
+  const [years, setYears] = useState<string[]>([])
+  const [stats, setStats] = useState<ShowStats | null>(null)
+  const [spending, setSpending] = useState<SpendingReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsAuthLoading(false)
+    })
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession))
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const userId = session?.user.id
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    Promise.all([fetchStats(selectedYear ?? undefined), fetchSpending(selectedYear ?? undefined)])
+      .then(([result, spendingReport]) => {
+        if (cancelled) return
+        setStats(result)
+        setSpending(spendingReport)
+        // perYear always covers every year, so the year list stays put while a year is selected
+        setYears(result.perYear.map((year) => year.year).reverse())
+        setError(null)
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error instanceof Error ? error.message : "Failed to load statistics")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, selectedYear])
+
+  const handleShare = async () => {
+    if (!selectedYear) return
+    setIsSharing(true)
+    try {
+      await shareYearInReview(selectedYear)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create image"
+      alert(`Failed to share year in review: ${errorMessage}`)
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  if (isAuthLoading) return null
+  if (!session) return <SignIn />
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1
+              className="text-2xl font-bold tracking-wider text-neon-cyan font-mono"
+              style={{ textShadow: "0 0 20px oklch(0.72 0.21 195 / 0.5)" }}
+            >
+              {selectedYear ? `${selectedYear} IN REVIEW` : "ALL TIME"}
+            </h1>
+            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wider mt-1">Statistics</p>
+          </div>
+          <div className="flex gap-2">
+            {selectedYear && (
+              <Button onClick={handleShare} disabled={isSharing} size="sm" className="font-mono text-xs">
+                <Share2 className="w-4 h-4 mr-1" />
+                {isSharing ? "Creating..." : "Share image"}
+              </Button>
+            )}
+            <Button asChild variant="outline" size="sm" className="font-mono text-xs">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Shows
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {[null, ...years].map((year) => (
+            <button
+              key={year ?? "all"}
+              onClick={() => setSelectedYear(year)}
+              className={`px-3 py-1.5 rounded-md font-mono text-xs transition-all ${
+                selectedYear === year
+                  ? "bg-primary/20 text-primary border border-primary/50"
+                  : "text-muted-foreground hover:text-foreground border border-transparent"
+              }`}
+            >
+              {year ?? "All time"}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+        {stats && <ShowStatsView stats={stats} />}
+        {spending && (
+          <section className="space-y-4">
+            <h2 className="text-lg font-bold font-mono">Spending</h2>
+            <SpendingReportView report={spending} />
+          </section>
+        )}
+      </div>
+    </main>
+  )
+}
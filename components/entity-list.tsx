@@ -0,0 +1,260 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Edit, Merge, Search } from "lucide-react"
+import { searchKey, type Artist, type ArtistUpdate, type Venue, type VenueUpdate } from "@/lib/entities"
+
+type Entity = { id: string; name: string; aliases: string[]; showCount: number }
+
+const SELECT_CLASS =
+  "px-3 py-2 rounded-md bg-input/50 border border-border/50 text-foreground focus:border-primary/50 focus:outline-none font-mono text-base md:text-xs"
+const LABEL_CLASS = "text-xs uppercase tracking-wider text-muted-foreground font-mono"
+
+function splitAliases(value: string): string[] {
+  return value
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Artists or venues with a filter, an editor per row and a merge tool: tick the duplicates, pick the
+ * one to keep and merge the others into it.
+ */
+export function EntityList<T extends Entity>({
+  items,
+  kind,
+  describe,
+  renderEditor,
+  onMerge,
+}: {
+  items: T[]
+  kind: "artist" | "venue"
+  describe?: (item: T) => string
+  renderEditor: (item: T, close: () => void) => React.ReactNode
+  onMerge: (targetId: string, ids: string[]) => Promise<void>
+}) {
+  const [filter, setFilter] = useState("")
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [targetId, setTargetId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isMerging, setIsMerging] = useState(false)
+
+  // Ignores case, accents and punctuation in names and aliases, so "so 36" finds "SO36"
+  const visible = useMemo(() => {
+    const key = filter.trim() ? searchKey(filter) : ""
+    if (!key) return items
+    return items.filter((item) => [item.name, ...item.aliases].some((name) => searchKey(name).includes(key)))
+  }, [items, filter])
+
+  const selected = items.filter((item) => selectedIds.includes(item.id))
+  // Keep the record with the most shows unless another one is picked
+  const keep = selected.find((item) => item.id === targetId) ?? [...selected].sort((a, b) => b.showCount - a.showCount)[0]
+
+  const toggle = (id: string) =>
+    setSelectedIds((current) => (current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id]))
+
+  const handleMerge = async () => {
+    if (!keep) return
+    const others = selected.filter((item) => item.id !== keep.id)
+    if (!confirm(`Merge ${others.map((item) => `"${item.name}"`).join(", ")} into "${keep.name}"? Their shows move to "${keep.name}".`)) {
+      return
+    }
+    setIsMerging(true)
+    try {
+      await onMerge(keep.id, others.map((item) => item.id))
+      setSelectedIds([])
+      setTargetId(null)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `Failed to merge ${kind}s`
+      alert(`Failed to merge ${kind}s: ${errorMessage}`)
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder={`Filter ${kind}s and aliases…`}
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="pl-10 font-mono text-base md:text-xs"
+        />
+      </div>
+
+      {selected.length >= 2 && keep && (
+        <Card className="p-4 border-primary/30 bg-primary/5 flex flex-col md:flex-row md:items-center gap-3">
+          <span className="text-xs font-mono">{selected.length} selected. Keep</span>
+          <select value={keep.id} onChange={(e) => setTargetId(e.target.value)} className={SELECT_CLASS}>
+            {selected.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+                {describe ? ` (${describe(item)})` : ""}
+              </option>
+            ))}
+          </select>
+          <Button onClick={handleMerge} disabled={isMerging} size="sm" className="font-mono text-xs">
+            <Merge className="w-4 h-4 mr-1" />
+            {isMerging ? "Merging..." : "Merge"}
+          </Button>
+          <Button onClick={() => setSelectedIds([])} variant="ghost" size="sm" className="font-mono text-xs">
+            Clear
+          </Button>
+        </Card>
+      )}
+
+      {visible.length === 0 && <p className="text-sm text-muted-foreground font-mono">No {kind}s found</p>}
+      <div className="space-y-2">
+        {visible.map((item) => (
+          <Card key={item.id} className="p-3 border-border/50 bg-card/50 space-y-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(item.id)}
+                onChange={() => toggle(item.id)}
+                aria-label={`Select ${item.name}`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-mono text-sm truncate">
+                  {item.name}
+                  {describe && <span className="text-muted-foreground"> · {describe(item)}</span>}
+                </div>
+                {item.aliases.length > 0 && (
+                  <div className="text-xs text-muted-foreground font-mono truncate">Also: {item.aliases.join(", ")}</div>
+                )}
+              </div>
+              <Badge variant="outline" className="border-border/50 text-muted-foreground font-mono text-xs">
+                {item.showCount} show{item.showCount === 1 ? "" : "s"}
+              </Badge>
+              <Button
+                onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                variant="ghost"
+                size="sm"
+                aria-label={`Edit ${item.name}`}
+              >
+                <Edit className="w-4 h-4" />
+              </Button>
+            </div>
+            {editingId === item.id && renderEditor(item, () => setEditingId(null))}
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function ArtistForm({
+  artist,
+  onSave,
+}: {
+  artist: Artist
+  onSave: (update: ArtistUpdate) => Promise<void>
+}) {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+    try {
+      await onSave({
+        id: artist.id,
+        name: (formData.get("name") as string).trim(),
+        aliases: splitAliases(formData.get("aliases") as string),
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update artist"
+      alert(`Failed to update artist: ${errorMessage}`)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Name *</label>
+        <Input name="name" defaultValue={artist.name} required className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Aliases (comma-separated)</label>
+        <Input name="aliases" defaultValue={artist.aliases.join(", ")} className="font-mono text-base md:text-xs" />
+      </div>
+      <div>
+        <Button type="submit" size="sm" className="font-mono text-xs">
+          Save Artist
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export function VenueForm({
+  venue,
+  onSave,
+}: {
+  venue: Venue
+  onSave: (update: VenueUpdate) => Promise<void>
+}) {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+    const text = (field: string) => (formData.get(field) as string).trim()
+    const coordinate = (field: string) => (text(field) ? Number(text(field)) : null)
+    try {
+      await onSave({
+        id: venue.id,
+        name: text("name"),
+        aliases: splitAliases(text("aliases")),
+        address: text("address") || null,
+        city: text("city"),
+        country: text("country") || null,
+        latitude: coordinate("latitude"),
+        longitude: coordinate("longitude"),
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update venue"
+      alert(`Failed to update venue: ${errorMessage}`)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Name *</label>
+        <Input name="name" defaultValue={venue.name} required className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Aliases (comma-separated)</label>
+        <Input name="aliases" defaultValue={venue.aliases.join(", ")} className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <label className={LABEL_CLASS}>Address</label>
+        <Input name="address" defaultValue={venue.address ?? ""} className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>City *</label>
+        <Input name="city" defaultValue={venue.city} required className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Country</label>
+        <Input name="country" defaultValue={venue.country ?? ""} maxLength={2} placeholder="DE" className="font-mono text-base md:text-xs uppercase" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Latitude</label>
+        <Input name="latitude" type="number" step="any" min="-90" max="90" defaultValue={venue.latitude ?? ""} className="font-mono text-base md:text-xs" />
+      </div>
+      <div className="space-y-2">
+        <label className={LABEL_CLASS}>Longitude</label>
+        <Input name="longitude" type="number" step="any" min="-180" max="180" defaultValue={venue.longitude ?? ""} className="font-mono text-base md:text-xs" />
+      </div>
+      <div>
+        <Button type="submit" size="sm" className="font-mono text-xs">
+          Save Venue
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge"
+import type { CSVRowError, Show } from "@/lib/shows"
+import type { ImportPreview, ImportSummary, ShowField } from "@/lib/show-import"
+
+const FIELD_LABELS: Record<ShowField, string> = {
+  show: "Show",
+  date: "Date",
+  city: "City",
+  venue: "Venue",
+  ticket: "Ticket",
+  ticketVendor: "Ticket Vendor",
+  ticketLocation: "Ticket Location",
+  attendance: "Attendance",
+  note: "Note",
+  price: "Price",
+  fees: "Fees",
+  currency: "Currency",
+  quantity: "Quantity",
+}
+
+function formatValue(value: Show[ShowField]): string {
+  return value === undefined || value === "" ? "—" : String(value)
+}
+
+export function ImportSummaryBadges({ summary }: { summary: ImportSummary }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline" className="border-green-500/50 text-green-400 bg-green-500/10 font-mono text-xs">
+        {summary.inserted} ADDED
+      </Badge>
+      <Badge variant="outline" className="border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10 font-mono text-xs">
+        {summary.updated} UPDATED
+      </Badge>
+      <Badge variant="outline" className="border-border/50 text-muted-foreground font-mono text-xs">
+        {summary.unchanged} UNCHANGED
+      </Badge>
+      {summary.skipped > 0 && (
+        <Badge variant="outline" className="border-neon-orange/50 text-neon-orange bg-neon-orange/10 font-mono text-xs">
+          {summary.skipped} SKIPPED
+        </Badge>
+      )}
+      {summary.deleted > 0 && (
+        <Badge variant="outline" className="border-destructive/50 text-destructive bg-destructive/10 font-mono text-xs">
+          {summary.deleted} DELETED
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+function PreviewSection({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  if (count === 0) return null
+  return (
+    <div className="space-y-2">
+      <p className="text-xs uppercase tracking-wider text-muted-foreground font-mono">
+        {title} ({count})
+      </p>
+      <ul className="space-y-1 max-h-64 overflow-auto text-xs font-mono">{children}</ul>
+    </div>
+  )
+}
+
+function ShowLine({ show }: { show: Show }) {
+  return (
+    <span>
+      {show.date} · <span className="text-foreground">{show.show}</span> · {show.venue}, {show.city}
+    </span>
+  )
+}
+
+/** Dry-run result of a CSV import: what would be added, changed, dropped, and which CSV lines were rejected. */
+export function ImportPreviewPanel({ preview, errors }: { preview: ImportPreview | null; errors: CSVRowError[] }) {
+  return (
+    <div className="space-y-4 pt-2 border-t border-border/30">
+      {preview && <ImportSummaryBadges summary={preview.summary} />}
+
+      <PreviewSection title="Rejected CSV lines" count={errors.length}>
+        {errors.map((error) => (
+          <li key={error.line} className="text-destructive">
+            Line {error.line}: {error.reason}
+            <span className="block text-muted-foreground truncate">{error.raw}</span>
+          </li>
+        ))}
+      </PreviewSection>
+
+      {preview && (
+        <>
+          <PreviewSection title="Added" count={preview.added.length}>
+            {preview.added.map((show, index) => (
+              <li key={index} className="text-green-400">
+                + <ShowLine show={show} />
+              </li>
+            ))}
+          </PreviewSection>
+
+          <PreviewSection title="Changed" count={preview.changed.length}>
+            {preview.changed.map((entry) => (
+              <li key={entry.id} className="text-neon-cyan">
+                ~ {entry.date} · <span className="text-foreground">{entry.show}</span> · {entry.venue}
+                <ul className="pl-4 text-muted-foreground">
+                  {entry.changes.map((change) => (
+                    <li key={change.field}>
+                      {FIELD_LABELS[change.field]}: <span className="line-through">{formatValue(change.before)}</span> →{" "}
+                      <span className="text-foreground">{formatValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </PreviewSection>
+
+          <PreviewSection title="Dropped" count={preview.dropped.length}>
+            {preview.dropped.map((show) => (
+              <li key={show.id} className="text-destructive">
+                − <ShowLine show={show} />
+              </li>
+            ))}
+          </PreviewSection>
+
+          <PreviewSection title="Skipped" count={preview.skipped.length}>
+            {preview.skipped.map(({ show, reason }, index) => (
+              <li key={index} className="text-neon-orange">
+                <ShowLine show={show} /> — {reason}
+              </li>
+            ))}
+          </PreviewSection>
+        </>
+      )}
+    </div>
+  )
+}
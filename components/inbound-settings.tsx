@@ -0,0 +1,165 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { X, Trash2, RotateCw } from "lucide-react"
+import { addInboundSender, fetchInboundSenders, removeInboundSender, type InboundSender } from "@/lib/profile-api"
+import { fetchFailedInboundEvents, reprocessInboundEvent, type InboundEvent } from "@/lib/inbound-events-api"
+
+/**
+ * Personal forwarding address plus the allow-list of senders the inbound webhook accepts, and the
+ * forwarded emails that failed to process, which can be retried.
+ */
+export function InboundSettings({
+  inboundAddress,
+  onShowsCreated,
+  onClose,
+}: {
+  inboundAddress: string | null
+  onShowsCreated: () => void
+  onClose: () => void
+}) {
+  const [senders, setSenders] = useState<InboundSender[]>([])
+  const [newSender, setNewSender] = useState("")
+  const [failedEvents, setFailedEvents] = useState<InboundEvent[]>([])
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchInboundSenders()
+      .then(setSenders)
+      .catch((error) => alert(`Failed to load senders: ${error instanceof Error ? error.message : error}`))
+    fetchFailedInboundEvents()
+      .then(setFailedEvents)
+      .catch((error) => console.error("Failed to load failed deliveries:", error))
+  }, [])
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id)
+    try {
+      const createdIds = await reprocessInboundEvent(id)
+      setFailedEvents((current) => current.filter((event) => event.id !== id))
+      if (createdIds.length > 0) onShowsCreated()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to reprocess email"
+      alert(`Failed to reprocess email: ${errorMessage}`)
+      // Show the new error and attempt count
+      fetchFailedInboundEvents()
+        .then(setFailedEvents)
+        .catch((error) => console.error("Failed to load failed deliveries:", error))
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  const handleAddSender = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!newSender.trim()) return
+    try {
+      const sender = await addInboundSender(newSender.trim())
+      setSenders((current) => [...current, sender])
+      setNewSender("")
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add sender"
+      alert(`Failed to add sender: ${errorMessage}`)
+    }
+  }
+
+  const handleRemoveSender = async (id: string) => {
+    try {
+      await removeInboundSender(id)
+      setSenders((current) => current.filter((sender) => sender.id !== id))
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove sender"
+      alert(`Failed to remove sender: ${errorMessage}`)
+    }
+  }
+
+  return (
+    <Card className="p-4 md:p-6 bg-card/50 backdrop-blur-sm border-border/50">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold font-mono">Forward Ticket Emails</h3>
+          <Button onClick={onClose} variant="ghost" size="sm" aria-label="Close email settings">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Your forwarding address</label>
+          {inboundAddress ? (
+            <p className="font-mono text-sm text-neon-cyan break-all">{inboundAddress}</p>
+          ) : (
+            <p className="font-mono text-xs text-muted-foreground">Inbound email is not configured on this server.</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Allowed senders</label>
+          <p className="text-xs text-muted-foreground font-mono">
+            Only emails forwarded from these addresses are turned into shows.
+          </p>
+          <ul className="space-y-1">
+            {senders.map((sender) => (
+              <li key={sender.id} className="flex items-center justify-between gap-2 font-mono text-xs">
+                <span className="truncate">{sender.email}</span>
+                <Button
+                  onClick={() => handleRemoveSender(sender.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${sender.email}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAddSender} className="flex gap-2">
+            <Input
+              type="email"
+              value={newSender}
+              onChange={(e) => setNewSender(e.target.value)}
+              placeholder="friend@example.com"
+              className="font-mono text-base md:text-xs"
+            />
+            <Button type="submit" variant="outline" size="sm" className="font-mono text-xs">
+              Add
+            </Button>
+          </form>
+        </div>
+        {failedEvents.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Failed deliveries</label>
+            <p className="text-xs text-muted-foreground font-mono">
+              These forwarded emails could not be processed. Retry once the problem is fixed.
+            </p>
+            <ul className="space-y-2">
+              {failedEvents.map((event) => (
+                <li key={event.id} className="flex items-start justify-between gap-2 font-mono text-xs">
+                  <div className="min-w-0">
+                    <p className="truncate">{event.subject || "(no subject)"}</p>
+                    <p className="text-muted-foreground">
+                      {new Date(event.receivedAt).toLocaleString()} · {event.attempts}{" "}
+                      {event.attempts === 1 ? "attempt" : "attempts"}
+                    </p>
+                    {event.error && <p className="text-destructive break-words">{event.error}</p>}
+                  </div>
+                  <Button
+                    onClick={() => handleRetry(event.id)}
+                    disabled={retryingId !== null}
+                    variant="outline"
+                    size="sm"
+                    className="font-mono text-xs shrink-0"
+                  >
+                    <RotateCw className={`w-3 h-3 mr-1 ${retryingId === event.id ? "animate-spin" : ""}`} />
+                    Retry
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { X, Plus, Trash2 } from "lucide-react"
+import type { Show } from "@/lib/shows"
+import { CONFIDENCE_THRESHOLD, type FieldProvenance } from "@/lib/parse-show-from-email"
+import { acceptPendingEmail, dismissPendingEmail, type PendingEmail, type PendingEmailFields } from "@/lib/pending-emails-api"
+
+const FIELDS: { key: keyof PendingEmailFields; label: string; type?: string }[] = [
+  { key: "show", label: "Show" },
+  { key: "date", label: "Date", type: "date" },
+  { key: "city", label: "City" },
+  { key: "venue", label: "Venue" },
+  { key: "vendor", label: "Ticket Vendor" },
+]
+
+function getInitialFields(email: PendingEmail): PendingEmailFields {
+  const parsed = email.parsed
+  // "Unknown" is the parser's placeholder; start those fields empty so they are easy to spot
+  const known = (value: string | undefined) => (value && value !== "Unknown" ? value : "")
+  return {
+    show: known(parsed?.show) || email.subject,
+    date: parsed?.date ?? "",
+    city: known(parsed?.city),
+    venue: known(parsed?.venue),
+    vendor: parsed?.vendor ?? "",
+  }
+}
+
+// Emails held before provenance was recorded have none
+function getProvenance(email: PendingEmail, key: keyof PendingEmailFields): FieldProvenance | null {
+  return key === "vendor" ? null : email.parsed?.provenance?.[key] ?? null
+}
+
+function PendingEmailCard({
+  email,
+  onResolved,
+  onShowCreated,
+}: {
+  email: PendingEmail
+  onResolved: (id: string) => void
+  onShowCreated: (show: Show) => void | Promise<void>
+}) {
+  const [fields, setFields] = useState<PendingEmailFields>(() => getInitialFields(email))
+  const [isSaving, setIsSaving] = useState(false)
+  // A notice about a show that was never added creates it with the notice's status
+  const kind = email.parsed?.kind
+  const noticeStatus = kind && kind !== "purchase" ? (kind === "postponement" ? "Postponed" : "Cancelled") : null
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    try {
+      setIsSaving(true)
+      const show = await acceptPendingEmail(email.id, fields)
+      await onShowCreated(show)
+      onResolved(email.id)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create show"
+      alert(`Failed to create show: ${errorMessage}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDismiss = async () => {
+    if (!confirm(`Dismiss "${email.subject || "(no subject)"}" without creating a show?`)) return
+    try {
+      await dismissPendingEmail(email.id)
+      onResolved(email.id)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to dismiss email"
+      alert(`Failed to dismiss email: ${errorMessage}`)
+    }
+  }
+
+  return (
+    <form onSubmit={handleCreate} className="space-y-3 border-t border-border/50 pt-4 first:border-t-0 first:pt-0">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-mono text-sm font-bold break-all">{email.subject || "(no subject)"}</span>
+          <Badge variant="outline" className="border-neon-orange/50 text-neon-orange bg-neon-orange/10 font-mono text-xs">
+            {email.reason}
+          </Badge>
+        </div>
+        <p className="font-mono text-xs text-muted-foreground break-all">
+          {email.sender} · {new Date(email.receivedAt).toLocaleString()}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+        {FIELDS.map(({ key, label, type }) => {
+          const provenance = getProvenance(email, key)
+          const isUncertain = provenance !== null && provenance.confidence < CONFIDENCE_THRESHOLD
+          return (
+            <div key={key} className="space-y-1">
+              <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">
+                {label}
+                {provenance && <span className={isUncertain ? "text-neon-orange" : undefined}> · {provenance.rule}</span>}
+              </label>
+              <Input
+                type={type ?? "text"}
+                value={fields[key]}
+                onChange={(e) => setFields((current) => ({ ...current, [key]: e.target.value }))}
+                required={key !== "vendor"}
+                className={`font-mono text-base md:text-xs ${isUncertain ? "border-neon-orange/70" : ""}`}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <details className="font-mono text-xs">
+        <summary className="cursor-pointer text-muted-foreground">Show email</summary>
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap break-words rounded bg-muted/30 p-2">{email.body}</pre>
+      </details>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" className="font-mono text-xs" disabled={isSaving}>
+          <Plus className="w-4 h-4 mr-1" />
+          {noticeStatus ? `Create ${noticeStatus} Show` : "Create Show"}
+        </Button>
+        <Button
+          type="button"
+          onClick={handleDismiss}
+          variant="ghost"
+          size="sm"
+          className="font-mono text-xs text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Dismiss
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/** Forwarded emails the parser could not handle: correct the fields and create the show, or dismiss. */
+export function PendingEmailsPanel({
+  pendingEmails,
+  onResolved,
+  onShowCreated,
+  onClose,
+}: {
+  pendingEmails: PendingEmail[]
+  onResolved: (id: string) => void
+  onShowCreated: (show: Show) => void | Promise<void>
+  onClose: () => void
+}) {
+  return (
+    <Card className="p-4 md:p-6 bg-card/50 backdrop-blur-sm border-border/50">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold font-mono">Emails to Review</h3>
+          <Button onClick={onClose} variant="ghost" size="sm" aria-label="Close review inbox">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {pendingEmails.length === 0 ? (
+          <p className="font-mono text-xs text-muted-foreground">Nothing to review. Every forwarded email became a show.</p>
+        ) : (
+          pendingEmails.map((email) => (
+            <PendingEmailCard key={email.id} email={email} onResolved={onResolved} onShowCreated={onShowCreated} />
+          ))
+        )}
+      </div>
+    </Card>
+  )
+}
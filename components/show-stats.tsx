@@ -0,0 +1,99 @@
+import { Card } from "@/components/ui/card"
+import type { NameCount, ShowStats } from "@/lib/show-stats"
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+function Figure({ label, value, className }: { label: string; value: string | number; className: string }) {
+  return (
+    <Card className="p-4 border-border/50 bg-card/50 text-center">
+      <div className={`text-2xl md:text-3xl font-bold font-mono ${className}`}>{value}</div>
+      <div className="text-xs text-muted-foreground font-mono uppercase tracking-wider mt-1">{label}</div>
+    </Card>
+  )
+}
+
+// Horizontal bars scaled to the largest count
+function BarList({ title, items }: { title: string; items: (NameCount & { detail?: string })[] }) {
+  const max = Math.max(1, ...items.map((item) => item.count))
+  return (
+    <Card className="p-4 border-border/50 bg-card/50 space-y-3">
+      <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">{title}</h2>
+      {items.length === 0 && <p className="text-sm text-muted-foreground font-mono">No attended shows yet</p>}
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={`${item.name}-${item.detail ?? ""}`} className="space-y-1">
+            <div className="flex justify-between gap-2 text-xs font-mono">
+              <span className="truncate">
+                {item.name}
+                {item.detail && <span className="text-muted-foreground"> · {item.detail}</span>}
+              </span>
+              <span className="text-muted-foreground">{item.count}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-secondary/50">
+              <div className="h-1.5 rounded-full bg-primary/70" style={{ width: `${(item.count / max) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+function formatMonth(month: string): string {
+  return `${MONTH_NAMES[Number(month.slice(5, 7)) - 1]} ${month.slice(0, 4)}`
+}
+
+/** The stats page's figures, charts and top lists for lifetime or one year's ShowStats. */
+export function ShowStatsView({ stats }: { stats: ShowStats }) {
+  // One year: a bar per month; lifetime: a bar per year
+  const timeline = stats.year
+    ? stats.perMonth.map((month) => ({ name: MONTH_NAMES[Number(month.month.slice(5, 7)) - 1], count: month.attended }))
+    : stats.perYear.map((year) => ({ name: year.year, count: year.attended }))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Figure label="Attended" value={stats.attended} className="text-green-400" />
+        <Figure label="Upcoming" value={stats.upcoming} className="text-neon-magenta" />
+        <Figure
+          label="Attendance rate"
+          value={stats.attendanceRate === null ? "-" : `${Math.round(stats.attendanceRate * 100)}%`}
+          className="text-neon-cyan"
+        />
+        <Figure label="Total" value={stats.total} className="text-foreground" />
+        <Figure label="Missed" value={stats.missed} className="text-muted-foreground" />
+        <Figure label="Cancelled" value={stats.cancelled} className="text-destructive" />
+        <Figure label="Postponed" value={stats.postponed} className="text-neon-orange" />
+        <Figure label="Favorite day" value={stats.favoriteWeekday ?? "-"} className="text-foreground" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card className="p-4 border-border/50 bg-card/50 space-y-2">
+          <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Longest streak</h2>
+          <p className="font-mono text-sm">
+            {stats.longestStreak
+              ? `${stats.longestStreak.months} month${stats.longestStreak.months === 1 ? "" : "s"} in a row with a show (${formatMonth(stats.longestStreak.from)} – ${formatMonth(stats.longestStreak.to)})`
+              : "-"}
+          </p>
+        </Card>
+        <Card className="p-4 border-border/50 bg-card/50 space-y-2">
+          <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Longest gap</h2>
+          <p className="font-mono text-sm">
+            {stats.longestGap ? `${stats.longestGap.days} days between shows (${stats.longestGap.from} – ${stats.longestGap.to})` : "-"}
+          </p>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <BarList title={stats.year ? "Shows per month" : "Shows per year"} items={timeline} />
+        <BarList title="Weekdays" items={stats.weekdays} />
+        <BarList title={`Most seen artists (${stats.artistCount})`} items={stats.topArtists} />
+        <BarList
+          title={`Top venues (${stats.venueCount})`}
+          items={stats.topVenues.map((venue) => ({ ...venue, detail: venue.city }))}
+        />
+        <BarList title={`Top cities (${stats.cityCount})`} items={stats.topCities} />
+      </div>
+    </div>
+  )
+}
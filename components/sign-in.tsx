@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { supabase } from "@/lib/supabase"
+
+/** Email + password sign-in (and sign-up) with Supabase Auth. The session is picked up by onAuthStateChange. */
+export function SignIn() {
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in")
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+    const email = (formData.get("email") as string).trim()
+    const password = formData.get("password") as string
+
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      if (mode === "sign-in") {
+        const { error } = await supabase.auth.signInWithPassword({ email, password })
+        if (error) setMessage(error.message)
+      } else {
+        const { data, error } = await supabase.auth.signUp({ email, password })
+        if (error) {
+          setMessage(error.message)
+        } else if (!data.session) {
+          setMessage("Check your inbox to confirm your email address, then sign in.")
+          setMode("sign-in")
+        }
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-background p-4">
+      <Card className="w-full max-w-sm p-6 bg-card/50 backdrop-blur-sm border-border/50 shadow-[0_0_30px_rgba(0,0,0,0.5)]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <h1
+              className="text-2xl font-bold tracking-wider text-neon-cyan font-mono"
+              style={{ textShadow: "0 0 20px oklch(0.72 0.21 195 / 0.5)" }}
+            >
+              SONA
+            </h1>
+            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wider mt-1">
+              {mode === "sign-in" ? "Sign in" : "Create account"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Email</label>
+            <Input name="email" type="email" autoComplete="email" required className="font-mono text-base md:text-xs" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Password</label>
+            <Input
+              name="password"
+              type="password"
+              autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+              minLength={6}
+              required
+              className="font-mono text-base md:text-xs"
+            />
+          </div>
+          {message && <p className="text-xs text-neon-orange font-mono">{message}</p>}
+          <Button type="submit" disabled={isSubmitting} className="w-full font-mono text-xs">
+            {mode === "sign-in" ? "Sign In" : "Sign Up"}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setMode(mode === "sign-in" ? "sign-up" : "sign-in")
+              setMessage(null)
+            }}
+            className="w-full font-mono text-xs text-muted-foreground"
+          >
+            {mode === "sign-in" ? "No account yet? Sign up" : "Already have an account? Sign in"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  )
+}
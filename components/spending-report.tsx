@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { formatPrice } from "@/lib/shows"
+import { convertSpending, type ConvertedGroup, type ExchangeRates, type SpendingReport } from "@/lib/spending"
+
+// Home currency and exchange rates are kept in the browser; the report converts with them
+const SETTINGS_KEY = "sona.spending"
+const DEFAULT_CURRENCY = "EUR"
+const TOP_LIST_SIZE = 10
+
+type SpendingSettings = { currency: string; rates: ExchangeRates }
+
+function loadSettings(): SpendingSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "null")
+    if (stored && typeof stored.currency === "string" && stored.rates && typeof stored.rates === "object") return stored
+  } catch {
+    // Unreadable settings start over
+  }
+  return { currency: DEFAULT_CURRENCY, rates: {} }
+}
+
+function formatGroup(group: ConvertedGroup, currency: string): string {
+  const extra = Object.entries(group.unconverted).map(([from, amount]) => formatPrice(amount, from))
+  return [formatPrice(group.total, currency), ...extra].join(" + ")
+}
+
+function SpendingList({ title, groups, currency }: { title: string; groups: ConvertedGroup[]; currency: string }) {
+  return (
+    <Card className="p-4 border-border/50 bg-card/50 space-y-3">
+      <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">{title}</h2>
+      {groups.length === 0 && <p className="text-sm text-muted-foreground font-mono">No ticket prices yet</p>}
+      <div className="space-y-1">
+        {groups.map((group) => (
+          <div key={group.name} className="flex justify-between gap-2 text-xs font-mono">
+            <span className="truncate">
+              {group.name}
+              <span className="text-muted-foreground"> · {group.shows}</span>
+            </span>
+            <span>{formatGroup(group, currency)}</span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+/** Spending per year, vendor and artist in the home currency, with the exchange rates to convert by. */
+export function SpendingReportView({ report }: { report: SpendingReport }) {
+  const [settings, setSettings] = useState<SpendingSettings>({ currency: DEFAULT_CURRENCY, rates: {} })
+
+  // localStorage only exists in the browser, after the first render
+  useEffect(() => setSettings(loadSettings()), [])
+
+  const updateSettings = (next: SpendingSettings) => {
+    setSettings(next)
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next))
+  }
+
+  const spending = useMemo(() => convertSpending(report, settings.currency, settings.rates), [report, settings])
+
+  // Every currency the collection was paid in, besides the home currency
+  const currencies = useMemo(
+    () =>
+      [...new Set(report.perYear.flatMap((group) => Object.keys(group.amounts)))]
+        .filter((currency) => currency && currency !== settings.currency)
+        .sort(),
+    [report, settings.currency]
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card className="p-4 border-border/50 bg-card/50 space-y-2">
+          <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">
+            Spent {report.year ? `in ${report.year}` : "in total"}
+          </h2>
+          <div className="text-2xl md:text-3xl font-bold font-mono text-neon-cyan">{formatGroup(spending.total, spending.currency)}</div>
+          <p className="text-xs text-muted-foreground font-mono">
+            {spending.total.shows} show{spending.total.shows === 1 ? "" : "s"} with a price, tickets and fees
+          </p>
+        </Card>
+        <Card className="p-4 border-border/50 bg-card/50 space-y-3">
+          <h2 className="text-xs uppercase tracking-wider text-muted-foreground font-mono">Exchange rates</h2>
+          <label className="flex items-center justify-between gap-2 text-xs font-mono">
+            Home currency
+            <Input
+              value={settings.currency}
+              maxLength={3}
+              onChange={(e) => {
+                const currency = e.target.value.trim().toUpperCase()
+                if (/^[A-Z]{0,3}$/.test(currency)) updateSettings({ ...settings, currency })
+              }}
+              className="w-24 font-mono text-base md:text-xs uppercase"
+            />
+          </label>
+          {currencies.map((currency) => (
+            <label key={currency} className="flex items-center justify-between gap-2 text-xs font-mono">
+              <span className={spending.missingRates.includes(currency) ? "text-neon-orange" : undefined}>
+                1 {currency} = ? {settings.currency}
+              </span>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={settings.rates[currency] ?? ""}
+                onChange={(e) => {
+                  const rates = { ...settings.rates }
+                  const rate = Number(e.target.value)
+                  if (e.target.value && rate > 0) rates[currency] = rate
+                  else delete rates[currency]
+                  updateSettings({ ...settings, rates })
+                }}
+                className="w-24 font-mono text-base md:text-xs"
+              />
+            </label>
+          ))}
+          {currencies.length === 0 && <p className="text-xs text-muted-foreground font-mono">All prices are in the home currency</p>}
+        </Card>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SpendingList title="Per year" groups={spending.perYear} currency={spending.currency} />
+        <SpendingList title="Per vendor" groups={spending.perVendor.slice(0, TOP_LIST_SIZE)} currency={spending.currency} />
+        <SpendingList title="Per artist" groups={spending.perArtist.slice(0, TOP_LIST_SIZE)} currency={spending.currency} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { iterateCSVRecords, toCSVRow } from "../csv"
+import { parseGoogleSheetsCSVWithErrors } from "../shows"
+
+const records = (text: string) => [...iterateCSVRecords(text)].map(({ fields, line }) => ({ fields, line }))
+
+describe("iterateCSVRecords", () => {
+  it("reads quoted fields with delimiters, escaped quotes and line breaks", () => {
+    const text = 'show,note\n"Wet Leg, live","said ""hi""\nafterwards"\nIdles,\n'
+    expect(records(text)).toEqual([
+      { fields: ["show", "note"], line: 1 },
+      { fields: ["Wet Leg, live", 'said "hi"\nafterwards'], line: 2 },
+      // Line numbers count the break inside the quoted note
+      { fields: ["Idles", ""], line: 4 },
+    ])
+  })
+
+  it("accepts CRLF and CR line endings and a last line without a break", () => {
+    expect(records("a,b\r\nc,d\re,f")).toEqual([
+      { fields: ["a", "b"], line: 1 },
+      { fields: ["c", "d"], line: 2 },
+      { fields: ["e", "f"], line: 3 },
+    ])
+  })
+
+  it("strips a byte order mark and whitespace before an opening quote", () => {
+    expect(records('\uFEFFshow, "Lido"')[0].fields).toEqual(["show", "Lido"])
+  })
+
+  it("keeps the raw text of each record", () => {
+    expect([...iterateCSVRecords('a,"b\r\nc"\r\nd')].map((record) => record.raw)).toEqual(['a,"b\r\nc"', "d"])
+  })
+
+  it("reads back what toCSVRow writes", () => {
+    const values = ["Wet Leg, live", 'said "hi"', "two\nlines", "plain"]
+    expect(records(toCSVRow(values))[0].fields).toEqual(values)
+  })
+})
+
+describe("parseGoogleSheetsCSVWithErrors", () => {
+  it("maps columns by header aliases in any order", () => {
+    const csv = "Club,Stadt,Datum,SHØW,Ticket Vendor,Status\r\nLido,Berlin,14.03.2025,Wet Leg,Eventim,yes\r\n"
+    const { shows, errors } = parseGoogleSheetsCSVWithErrors(`\uFEFF${csv}`)
+    expect(errors).toEqual([])
+    expect(shows).toEqual([
+      expect.objectContaining({ show: "Wet Leg", date: "2025-03-14", city: "Berlin", venue: "Lido", ticketVendor: "Eventim", attendance: "YES" }),
+    ])
+  })
+
+  it("reports a header without the required columns", () => {
+    const { shows, errors } = parseGoogleSheetsCSVWithErrors("Artist,Date,Place\nWet Leg,2025-03-14,Lido\n")
+    expect(shows).toEqual([])
+    expect(errors).toEqual([{ line: 1, raw: "Artist,Date,Place", reason: "Header row is missing required column(s): CITY" }])
+  })
+
+  it("reports rows it cannot import by their line", () => {
+    const csv = 'SHOW,DATE,CITY,VENUE\n"Idles\n(late show)",2025-03-14,Berlin,Lido\nWet Leg,31.02.2025,Berlin,Lido\n'
+    const { shows, errors } = parseGoogleSheetsCSVWithErrors(csv)
+    expect(shows.map((show) => show.show)).toEqual(["Idles\n(late show)"])
+    expect(errors).toEqual([
+      { line: 4, raw: "Wet Leg,31.02.2025,Berlin,Lido", reason: 'Invalid date "31.02.2025" (expected DD.MM.YYYY or YYYY-MM-DD)' },
+    ])
+  })
+})
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { parseDate } from "../email-parsing"
+import { detectLocale, type EmailLocale } from "../email-locales"
+
+const US: EmailLocale = { language: "en", dayFirst: false }
+const UK: EmailLocale = { language: "en", dayFirst: true }
+const DE: EmailLocale = { language: "de", dayFirst: true }
+const FR: EmailLocale = { language: "fr", dayFirst: true }
+
+describe("parseDate", () => {
+  // Dates without a year are placed in the year their weekday fits, nearest first
+  beforeAll(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"))
+  })
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+
+  it.each([
+    ["Wed, March 11, 2026", US, "2026-03-11"],
+    ["Mi., 11. März 2026, 20:00 Uhr", DE, "2026-03-11"],
+    ["le vendredi 3 avril 2026 à 20h30", FR, "2026-04-03"],
+    ["1er avril 2026", FR, "2026-04-01"],
+    ["sábado, 16 de mayo de 2026 - 21:00", { language: "es", dayFirst: true }, "2026-05-16"],
+    ["za 4 april 2026", { language: "nl", dayFirst: true }, "2026-04-04"],
+    ["Sat 4th Apr 2026, 7:30 PM", UK, "2026-04-04"],
+    ["03/04/2026", US, "2026-03-04"],
+    ["03/04/2026", UK, "2026-04-03"],
+    ["03-04-2026", { language: "nl", dayFirst: true }, "2026-04-03"],
+    ["25/04/2026", US, "2026-04-25"],
+    ["Sa, 18.04.", DE, "2026-04-18"],
+    ["samedi 18 avril", FR, "2026-04-18"],
+    ["18 avril", FR, null],
+    ["45.13.2026", DE, null],
+    ["31.04.2026", DE, null],
+    ["2026-02-30", US, null],
+    ["March 32, 2026", US, null],
+  ] as const)("%s", (input, locale, expected) => {
+    expect(parseDate(input, locale)).toBe(expected)
+  })
+})
+
+describe("detectLocale", () => {
+  it("uses the original sender of a forwarded email", () => {
+    expect(detectLocale({ senders: ["alex@gmail.com", "Melkweg <tickets@melkweg.nl>"], text: "" })).toEqual({
+      language: "nl",
+      dayFirst: true,
+    })
+  })
+
+  it("reads day-first dates in non-English emails from .com senders", () => {
+    const text = "Merci pour votre commande. Vos billets pour le concert sont avec nous."
+    expect(detectLocale({ senders: ["billets@example.com"], text })).toEqual({ language: "fr", dayFirst: true })
+  })
+
+  it("keeps US order for English emails from unknown senders", () => {
+    expect(detectLocale({ senders: ["tickets@example.com"], text: "Thank you for your order" })).toEqual(US)
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { extractTicketDetails } from "../email-ticket-details"
+
+describe("extractTicketDetails", () => {
+  it.each([
+    ["Total: €1234.50", 1234.5],
+    ["Gesamtbetrag: 1.234,50 EUR", 1234.5],
+    ["Order total £1 234", 1234],
+    ["Total: $1,234.50", 1234.5],
+    ["Summe 32,50 €", 32.5],
+    ["Total: 45 CHF", 45],
+    ["Price: €32.5", 32.5],
+    ["Total: €45\n10999 Berlin", 45],
+    ["Total: 1\u00a0234,50 €", 1234.5],
+  ])("reads the price in %s", (text, price) => {
+    expect(extractTicketDetails(text).price).toBe(price)
+  })
+
+  it.each([
+    ["Doors open at 19:30", "19:30"],
+    ["Doors 7.30pm", "19:30"],
+    ["Doors: 12:15 am", "00:15"],
+    ["Einlass ab 18h00", "18:00"],
+    ["Doors 20:75", null],
+    ["Doors 25:00", null],
+    ["Doors 13:00 pm", null],
+  ])("reads the door time in %s", (text, doorTime) => {
+    expect(extractTicketDetails(text).doorTime).toBe(doorTime)
+  })
+})
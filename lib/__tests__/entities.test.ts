@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { canonicalizeShows, parseVenueUpdate, searchKey, type EntityKeyOf } from "../entities"
+import { computeShowStats } from "../show-stats"
+import { makeShow } from "./fixtures/shows"
+
+// Stands in for entity_key in the database, including what unaccent folds beyond accents
+const ENTITY_KEYS: Record<string, string> = {
+  "fontaines dc": "fontainesdc",
+  Fontaines: "fontaines",
+  "So36 Berlin": "so36berlin",
+  "SO 36": "so36",
+  berlin: "berlin",
+  Hamburg: "hamburg",
+  "MØ": "mo",
+  Mo: "mo",
+  "Straße": "strasse",
+  STRASSE: "strasse",
+}
+const keyOf: EntityKeyOf = (name) => ENTITY_KEYS[name] ?? name.toLowerCase()
+
+describe("searchKey", () => {
+  it("ignores case, accents, spaces and punctuation", () => {
+    expect(["SO36", "SO 36", "so-36", "Só 36"].map(searchKey)).toEqual(["so36", "so36", "so36", "so36"])
+    expect(searchKey("!!!")).toBe("!!!")
+  })
+})
+
+describe("canonicalizeShows", () => {
+  const artists = [
+    { name: "Fontaines D.C.", match_keys: ["fontainesdc", "fontaines"] },
+    { name: "MØ", match_keys: ["mo"] },
+  ]
+  const venues = [
+    { name: "SO36", city: "Berlin", match_keys: ["so36", "so36berlin"], city_key: "berlin" },
+    { name: "Straße", city: "Hamburg", match_keys: ["strasse"], city_key: "hamburg" },
+  ]
+
+  it("uses the saved names for spellings and aliases", () => {
+    const shows = canonicalizeShows(
+      [makeShow({ show: "fontaines dc", venue: "So36 Berlin", city: "berlin" }), makeShow({ show: "Fontaines", venue: "SO 36", city: "Hamburg" })],
+      artists,
+      venues,
+      keyOf
+    )
+    expect(shows.map(({ show, venue, city }) => [show, venue, city])).toEqual([
+      ["Fontaines D.C.", "SO36", "Berlin"],
+      // A venue only matches in its own city
+      ["Fontaines D.C.", "SO 36", "Hamburg"],
+    ])
+  })
+
+  it("matches by the database's keys, also for letters unaccent folds", () => {
+    const [row] = canonicalizeShows([makeShow({ show: "Mo", venue: "STRASSE", city: "Hamburg" })], artists, venues, keyOf)
+    expect([row.show, row.venue]).toEqual(["MØ", "Straße"])
+  })
+})
+
+describe("parseVenueUpdate", () => {
+  it("cleans aliases and validates details", () => {
+    const parsed = parseVenueUpdate({ id: "v1", name: "SO36", aliases: [" SO 36 ", "So36 Berlin", "so36 berlin", ""], country: "de" }, searchKey)
+    expect(parsed).toMatchObject({ update: { name: "SO36", aliases: ["So36 Berlin"], country: "DE" } })
+    expect(parseVenueUpdate({ id: "v1", latitude: 120 }, searchKey)).toEqual({ error: "Invalid latitude: 120" })
+    expect(parseVenueUpdate({ id: "v1", city: " " }, searchKey)).toEqual({ error: "city must not be empty" })
+  })
+
+  it("drops aliases with the name's key", () => {
+    const parsed = parseVenueUpdate({ id: "v1", name: "Straße", aliases: ["STRASSE", "Mo"] }, keyOf)
+    expect(parsed).toMatchObject({ update: { aliases: ["Mo"] } })
+  })
+
+  it("drops aliases with the saved name's key when the name isn't changed", () => {
+    const parsed = parseVenueUpdate({ id: "v1", aliases: ["STRASSE", "Mo"] }, keyOf, "Straße")
+    expect(parsed).toMatchObject({ update: { aliases: ["Mo"] } })
+    expect(parsed).not.toHaveProperty("update.name")
+  })
+})
+
+describe("stats by record", () => {
+  it("counts shows linked to one venue together whatever their text says", () => {
+    const stats = computeShowStats(
+      [makeShow({ show: "Idles", venue: "SO36", venueId: "v1" }), makeShow({ show: "Idles", venue: "SO 36", venueId: "v1" })],
+      null,
+      new Date("2025-10-19T00:00:00")
+    )
+    expect(stats.topVenues).toEqual([{ name: "SO36", city: "Berlin", count: 2 }])
+  })
+})
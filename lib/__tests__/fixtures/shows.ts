@@ -0,0 +1,16 @@
+import type { Show } from "../../shows"
+
+/** An attended show at Lido, Berlin, with the given fields on top. */
+export function makeShow(fields: Partial<Show> = {}): Show {
+  return {
+    show: "Wet Leg",
+    date: "2025-05-01",
+    city: "Berlin",
+    venue: "Lido",
+    ticket: "YES",
+    ticketVendor: "",
+    ticketLocation: "",
+    attendance: "YES",
+    ...fields,
+  }
+}
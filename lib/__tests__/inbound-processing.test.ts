@@ -0,0 +1,108 @@
+import { readFileSync } from "node:fs"
+import path from "node:path"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Resend } from "resend"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { Database } from "../database.types"
+import { processInboundEmail, type ReceivedEmail } from "../inbound-processing"
+
+/**
+ * Processing the same email twice, as a Resend retry or a manual reprocess does, against an
+ * in-memory stand-in for the handful of PostgREST calls the inbound pipeline makes.
+ */
+
+type Row = Record<string, any>
+
+function fakeSupabase(tables: Record<string, Row[]>) {
+  let nextId = 1
+  const from = (table: string) => {
+    const rows = (tables[table] ??= [])
+    const filters: ((row: Row) => boolean)[] = []
+    let write: (() => Row[]) | null = null
+    let mode: "many" | "single" = "many"
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), query),
+      is: (column: string, value: unknown) => (filters.push((row) => (row[column] ?? null) === value), query),
+      gte: (column: string, value: string) => (filters.push((row) => row[column] >= value), query),
+      // Only the "col.eq.value" and "col.cs.{value}" conditions the pipeline uses
+      or: (conditions: string) => {
+        const tests = conditions.split(",").map((condition) => {
+          const [column, op, value] = condition.split(/\.(eq|cs)\./)
+          return op === "eq" ? (row: Row) => row[column] === value : (row: Row) => (row[column] ?? []).includes(value.slice(1, -1))
+        })
+        filters.push((row) => tests.some((test) => test(row)))
+        return query
+      },
+      insert: (data: Row | Row[]) => {
+        write = () => [data].flat().map((row) => (rows.push({ id: String(nextId++), ...row }), rows[rows.length - 1]))
+        return query
+      },
+      upsert: (data: Row | Row[], options: { onConflict: string }) => {
+        const columns = options.onConflict.split(",")
+        write = () =>
+          [data].flat().flatMap((row) => {
+            if (rows.some((saved) => columns.every((column) => saved[column] === row[column]))) return []
+            rows.push({ id: String(nextId++), ...row })
+            return [rows[rows.length - 1]]
+          })
+        return query
+      },
+      update: (data: Row) => {
+        write = () => rows.filter((row) => filters.every((test) => test(row))).map((row) => Object.assign(row, data))
+        return query
+      },
+      single: () => ((mode = "single"), query),
+      then: (resolve: (result: { data: unknown; error: null }) => unknown) => {
+        const result = write ? write() : rows.filter((row) => filters.every((test) => test(row)))
+        return Promise.resolve({ data: mode === "single" ? result[0] : result, error: null }).then(resolve)
+      },
+    }
+    return query
+  }
+  return { from } as unknown as SupabaseClient<Database>
+}
+
+const resend = {
+  emails: { receiving: { attachments: { list: async () => ({ data: { data: [] }, error: null }) } } },
+} as unknown as Resend
+
+const fixture = path.join(__dirname, "fixtures", "emails", "postponement")
+const email = {
+  subject: "Fwd: Wet Leg – Berlin show postponed",
+  from: "alex@example.com",
+  text: readFileSync(`${fixture}.txt`, "utf8"),
+  html: null,
+} as unknown as ReceivedEmail
+
+const processTwice = async (client: SupabaseClient<Database>) => {
+  const inbound = { emailId: "email-1", userId: "user-1", email }
+  return [await processInboundEmail(client, resend, inbound), await processInboundEmail(client, resend, inbound)]
+}
+
+describe("processing an email again", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  it("holds a notice without a show once", async () => {
+    const tables: Record<string, Row[]> = { shows: [], pending_emails: [] }
+    const [first, second] = await processTwice(fakeSupabase(tables))
+
+    expect(tables.pending_emails).toHaveLength(1)
+    expect(tables.pending_emails[0]).toMatchObject({ email_id: "email-1", item_index: 0 })
+    expect(second.results).toEqual(first.results)
+  })
+
+  it("finds the show a postponement already moved", async () => {
+    const show = { id: "show-1", user_id: "user-1", show: "Wet Leg", date: "2026-03-12", venue: "Astra Kulturhaus", city: "Berlin", attendance: "NOT YET", previous_dates: [] }
+    const tables: Record<string, Row[]> = { shows: [show], pending_emails: [] }
+    const [, second] = await processTwice(fakeSupabase(tables))
+
+    expect(tables.pending_emails).toHaveLength(0)
+    expect(second.results).toEqual([expect.objectContaining({ updated: true, updatedFields: ["attendance"] })])
+    expect(tables.shows[0]).toMatchObject({ date: "2026-09-24", previous_dates: ["2026-03-12"], attendance: "POSTPONED" })
+  })
+})
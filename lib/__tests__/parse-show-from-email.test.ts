@@ -0,0 +1,54 @@
+import { readdirSync, readFileSync } from "node:fs"
+import path from "node:path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { parseShowFromEmail, parseShowsFromEmail, type ParsedShow } from "../parse-show-from-email"
+
+/**
+ * Regression suite for the ticket email parser. Each case in fixtures/emails is a body file
+ * (<name>.txt or <name>.html) plus <name>.json with the subject, sender and expected ParsedShow
+ * (null when the email should not produce a show, a list for emails with several events).
+ * Add a case for every email the parser gets wrong.
+ */
+
+type EmailFixture = {
+  subject: string
+  from: string
+  expected: ParsedShow | ParsedShow[] | null
+}
+
+const fixturesDir = path.join(__dirname, "fixtures", "emails")
+
+const cases = readdirSync(fixturesDir)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => {
+    const name = file.replace(/\.json$/, "")
+    const bodyFile = readdirSync(fixturesDir).find((other) => other === `${name}.txt` || other === `${name}.html`)
+    if (!bodyFile) throw new Error(`Fixture ${name} has no .txt or .html body`)
+    const fixture = JSON.parse(readFileSync(path.join(fixturesDir, file), "utf8")) as EmailFixture
+    return { name: bodyFile, body: readFileSync(path.join(fixturesDir, bodyFile), "utf8"), ...fixture }
+  })
+
+describe("parseShowFromEmail", () => {
+  // Event dates are only accepted within a window around the current year
+  beforeAll(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"))
+  })
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+
+  it("has fixtures", () => {
+    expect(cases.length).toBeGreaterThan(0)
+  })
+
+  it.each(cases)("$name", ({ subject, body, from, expected }) => {
+    if (Array.isArray(expected)) {
+      expect(parseShowsFromEmail(subject, body, from)).toEqual(expected)
+    } else {
+      expect(parseShowFromEmail(subject, body, from)).toEqual(expected)
+      // Single-event emails must not be split into several shows
+      expect(parseShowsFromEmail(subject, body, from)).toEqual(expected ? [expected] : [])
+    }
+  })
+})
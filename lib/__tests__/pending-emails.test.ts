@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import type { EmailShowFields, FieldRule } from "../parse-show-from-email"
+import { decideInboundAction } from "../pending-emails"
+
+function fields(rules: Record<"show" | "date" | "city" | "venue", [FieldRule, number]>, date: string | null = "2026-05-01"): EmailShowFields {
+  const [show, dateRule, city, venue] = (["show", "date", "city", "venue"] as const).map((field) => ({
+    rule: rules[field][0],
+    confidence: rules[field][1],
+  }))
+  return {
+    show: "Artist",
+    date,
+    city: city.rule === "default" ? "Unknown" : "Berlin",
+    venue: venue.rule === "default" ? "Unknown" : "SO36",
+    vendor: "",
+    kind: "purchase",
+    newDate: null,
+    ticket: { orderNumber: null, quantity: null, seat: null, price: null, currency: null, doorTime: null, location: null },
+    provenance: { show, date: dateRule, city, venue },
+  }
+}
+
+describe("decideInboundAction", () => {
+  it("creates shows when every field is confident", () => {
+    const decision = decideInboundAction(
+      fields({ show: ["vendor", 0.9], date: ["vendor", 0.9], city: ["venue-line", 0.9], venue: ["venue-line", 0.9] })
+    )
+    expect(decision).toEqual({ action: "create" })
+  })
+
+  it("flags uncertain fields", () => {
+    const decision = decideInboundAction(
+      fields({ show: ["label", 0.7], date: ["date-pattern", 0.5], city: ["default", 0], venue: ["label", 0.7] })
+    )
+    expect(decision).toEqual({ action: "flag", uncertainFields: ["date", "city"] })
+  })
+
+  it("holds emails without a date", () => {
+    const decision = decideInboundAction(
+      fields({ show: ["label", 0.7], date: ["default", 0], city: ["label", 0.7], venue: ["label", 0.7] }, null)
+    )
+    expect(decision).toEqual({ action: "hold", reason: "Could not find an event date" })
+  })
+
+  it("holds emails without venue and city", () => {
+    const decision = decideInboundAction(
+      fields({ show: ["label", 0.7], date: ["label", 0.7], city: ["default", 0], venue: ["default", 0] })
+    )
+    expect(decision.action).toBe("hold")
+  })
+
+  it("holds emails where show name and date are both guesses", () => {
+    const decision = decideInboundAction(
+      fields({ show: ["subject", 0.3], date: ["date-pattern", 0.5], city: ["label", 0.7], venue: ["label", 0.7] })
+    )
+    expect(decision).toEqual({ action: "hold", reason: "Show name and date are guesses" })
+  })
+})
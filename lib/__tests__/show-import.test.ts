@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { buildImportPreview, planShowImport, summarizeImportPlan } from "../show-import"
+import { makeShow } from "./fixtures/shows"
+
+const saved = [
+  makeShow({ id: "1", show: "Wet Leg", date: "2024-05-01", venue: "Lido", price: 40 }),
+  makeShow({ id: "2", show: "Idles", date: "2024-09-12", venue: "Columbiahalle" }),
+  makeShow({ id: "3", show: "Big Thief", date: "2025-03-04", venue: "Tempodrom" }),
+]
+
+describe("planShowImport", () => {
+  it("inserts new rows, updates changed ones and skips repeated rows", () => {
+    const plan = planShowImport(saved, [
+      makeShow({ show: " wet  leg ", date: "2024-05-01", venue: "LIDO" }),
+      makeShow({ show: "Idles", date: "2024-09-12", venue: "Columbiahalle", attendance: "NO", note: "sick" }),
+      makeShow({ show: "Sigur Rós", date: "2025-06-07", venue: "Tempodrom" }),
+      makeShow({ show: "Sigur Ros", date: "2025-06-07", venue: "Tempodrom" }),
+      makeShow({ show: "sigur rós", date: "2025-06-07", venue: "tempodrom" }),
+    ])
+
+    // A row without a price keeps the saved one, so Wet Leg is unchanged
+    expect(plan.unchanged.map((show) => show.id)).toEqual(["1"])
+    expect(plan.toUpdate.map(({ row, existing, changes }) => [row, existing.id, changes.map((change) => change.field)])).toEqual([
+      [2, "2", ["attendance", "note"]],
+    ])
+    expect(plan.toInsert.map(({ row, show }) => [row, show.show])).toEqual([
+      [3, "Sigur Rós"],
+      [4, "Sigur Ros"],
+    ])
+    expect(plan.skipped).toEqual([{ show: expect.objectContaining({ show: "sigur rós" }), reason: "Duplicate of an earlier row in this import" }])
+    expect(plan.untouched.map((show) => show.id)).toEqual(["3"])
+  })
+
+  it("compares costs only when the row has them", () => {
+    const plan = planShowImport(saved, [makeShow({ show: "Wet Leg", date: "2024-05-01", venue: "Lido", price: 45, currency: "EUR" })])
+    expect(plan.toUpdate[0].changes).toEqual([
+      { field: "price", before: 40, after: 45 },
+      { field: "currency", before: undefined, after: "EUR" },
+    ])
+  })
+
+  it("keeps saved shows that share a match key apart", () => {
+    const duplicated = [...saved, makeShow({ id: "4", show: "WET LEG", date: "2024-05-01", venue: "Lido" })]
+    const plan = planShowImport(duplicated, [makeShow({ show: "Wet Leg", date: "2024-05-01", venue: "Lido" })])
+
+    // The row matches the first copy; replacing removes the second along with the shows not in the sheet
+    expect(plan.unchanged.map((show) => show.id)).toEqual(["1"])
+    expect(plan.untouched.map((show) => show.id)).toEqual(["2", "3", "4"])
+    expect(summarizeImportPlan(plan, "merge")).toMatchObject({ unchanged: 1, deleted: 0 })
+    expect(buildImportPreview(plan, "replace").dropped.map((show) => show.id)).toEqual(["2", "3", "4"])
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { parseShowQuery, showQueryToParams, type ShowQuery } from "../shows"
+
+describe("show query parameters", () => {
+  it("round-trips the dashboard query", () => {
+    const query: ShowQuery = {
+      year: "2025",
+      attendance: "Upcoming",
+      status: ["NOT YET", "POSTPONED"],
+      city: "Berlin",
+      search: "wet leg",
+      sort: "-date",
+      cursor: "WyIyMDI1LTA1LTAxIiwiYWJjIl0",
+      limit: 50,
+    }
+    expect(parseShowQuery(showQueryToParams(query))).toEqual({ query: { ...query, from: undefined, to: undefined, venue: undefined } })
+  })
+
+  it("leaves out defaults", () => {
+    expect(showQueryToParams({ attendance: "All", search: "" }).toString()).toBe("")
+  })
+
+  it.each([
+    ["year=25", "Invalid year: 25"],
+    ["from=2025-13-01", "Invalid date: 2025-13-01. Expected YYYY-MM-DD format."],
+    ["attendance=Maybe", "Unsupported attendance filter: Maybe"],
+    ["status=YES,SOLD OUT", "Unsupported attendance status: SOLD OUT"],
+    ["sort=price", "Unsupported sort order: price. Use relevance, date, -date, show, city, venue."],
+    ["limit=0", "Invalid limit: 0. Expected 1-500."],
+  ])("rejects %s", (params, error) => {
+    expect(parseShowQuery(new URLSearchParams(params))).toEqual({ error })
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { parseSearchOperators } from "../show-search"
+
+describe("parseSearchOperators", () => {
+  it("turns operators into filters and keeps the rest as text", () => {
+    expect(parseSearchOperators("sigur ros city:Berlin year:2024 status:attended")).toEqual({
+      filters: { city: "Berlin", year: "2024", attendance: "Attended" },
+      text: "sigur ros",
+    })
+  })
+
+  it("reads quoted values and exact statuses", () => {
+    expect(parseSearchOperators('venue:"Lido Berlin" status:cancelled status:postponed')).toEqual({
+      filters: { venue: "Lido Berlin", status: ["CANCELLED", "POSTPONED"] },
+      text: "",
+    })
+  })
+
+  it("searches for tokens that are not valid operators", () => {
+    expect(parseSearchOperators("year:24 status:maybe genre:punk from:2024-01-01")).toEqual({
+      filters: { from: "2024-01-01" },
+      text: "year:24 status:maybe genre:punk",
+    })
+  })
+})
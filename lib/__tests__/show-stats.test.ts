@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { computeShowStats } from "../show-stats"
+import { makeShow } from "./fixtures/shows"
+
+const shows = [
+  makeShow({ date: "2024-11-20", show: "Wet Leg" }),
+  makeShow({ date: "2024-12-05", show: "WET LEG", venue: "Paradiso", city: "Amsterdam" }),
+  makeShow({ date: "2025-01-10", show: "Fontaines D.C." }),
+  makeShow({ date: "2025-03-14", show: "Idles", attendance: "NO" }),
+  makeShow({ date: "2025-04-01", show: "Idles", attendance: "CANCELLED" }),
+  makeShow({ date: "2025-06-07", show: "Sigur Rós", venue: "Tempodrom" }),
+  makeShow({ date: "2025-12-31", show: "Big Thief", attendance: "NOT YET" }),
+]
+const today = new Date("2025-10-19T00:00:00")
+
+describe("computeShowStats", () => {
+  it("counts lifetime attendance, top lists and years", () => {
+    const stats = computeShowStats(shows, null, today)
+    expect(stats).toMatchObject({
+      year: null,
+      total: 7,
+      attended: 4,
+      missed: 1,
+      cancelled: 1,
+      postponed: 0,
+      upcoming: 1,
+      attendanceRate: 0.8,
+      artistCount: 3,
+      perYear: [
+        { year: "2024", total: 2, attended: 2 },
+        { year: "2025", total: 5, attended: 2 },
+      ],
+    })
+    expect(stats.topArtists[0]).toEqual({ name: "Wet Leg", count: 2 })
+    expect(stats.topVenues[0]).toEqual({ name: "Lido", city: "Berlin", count: 2 })
+    expect(stats.topCities).toEqual([
+      { name: "Berlin", count: 3 },
+      { name: "Amsterdam", count: 1 },
+    ])
+    expect(stats.perMonth).toHaveLength(14)
+  })
+
+  it("finds streaks of consecutive months and the longest gap", () => {
+    const stats = computeShowStats(shows, null, today)
+    expect(stats.longestStreak).toEqual({ months: 3, from: "2024-11", to: "2025-01" })
+    expect(stats.longestGap).toEqual({ days: 148, from: "2025-01-10", to: "2025-06-07" })
+  })
+
+  it("limits everything but the per-year counts to the selected year", () => {
+    const stats = computeShowStats(shows, "2024", today)
+    expect(stats).toMatchObject({ total: 2, attended: 2, upcoming: 0, attendanceRate: 1, favoriteWeekday: "Wednesday" })
+    expect(stats.perMonth.map((month) => month.month)).toEqual(
+      Array.from({ length: 12 }, (_, i) => `2024-${String(i + 1).padStart(2, "0")}`)
+    )
+    expect(stats.perYear).toHaveLength(2)
+  })
+
+  it("handles a year without shows", () => {
+    const stats = computeShowStats(shows, "2023", today)
+    expect(stats).toMatchObject({ total: 0, attendanceRate: null, favoriteWeekday: null, longestStreak: null, longestGap: null })
+  })
+})
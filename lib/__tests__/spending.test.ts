@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import { computeSpending, convertSpending } from "../spending"
+import { parseGoogleSheetsCSVWithErrors } from "../shows"
+import { makeShow } from "./fixtures/shows"
+
+const shows = [
+  makeShow({ date: "2024-05-01", show: "Wet Leg", ticketVendor: "Eventim", price: 40, fees: 4.5, currency: "EUR" }),
+  makeShow({ date: "2024-09-12", show: "Idles", ticketVendor: "DICE", price: 30, currency: "GBP" }),
+  makeShow({ date: "2025-02-03", show: "wet leg", ticketVendor: "eventim", price: 50, currency: "EUR", quantity: 2 }),
+  makeShow({ date: "2025-03-04", show: "Big Thief", ticketVendor: "Ticketmaster", price: 60, currency: "USD", attendance: "CANCELLED" }),
+  makeShow({ date: "2025-04-05", show: "Fontaines D.C.", price: 35 }),
+  makeShow({ date: "2025-06-07", show: "Sigur Rós", ticketVendor: "Eventim" }),
+]
+
+describe("computeSpending", () => {
+  it("adds up price and fees per currency, leaving out cancelled shows", () => {
+    const report = computeSpending(shows, null)
+    expect(report.total).toEqual({ name: "Total", shows: 4, amounts: { EUR: 94.5, GBP: 30, "": 35 } })
+    expect(report.perArtist.find((group) => group.name === "Wet Leg")).toEqual({ name: "Wet Leg", shows: 2, amounts: { EUR: 94.5 } })
+    expect(report.perVendor.map((group) => group.name)).toEqual(["Eventim", "DICE", "Unknown"])
+  })
+
+  it("limits vendors and artists to the year but keeps every year", () => {
+    const report = computeSpending(shows, "2025")
+    expect(report.total.amounts).toEqual({ EUR: 50, "": 35 })
+    expect(report.perYear.map((group) => group.name)).toEqual(["2024", "2025"])
+  })
+})
+
+describe("convertSpending", () => {
+  it("converts with the rate table and keeps currencies without a rate apart", () => {
+    const spending = convertSpending(computeSpending(shows, null), "EUR", {})
+    expect(spending.total).toEqual({ name: "Total", shows: 4, total: 129.5, unconverted: { GBP: 30 } })
+    expect(spending.missingRates).toEqual(["GBP"])
+
+    const converted = convertSpending(computeSpending(shows, null), "EUR", { GBP: 1.2 })
+    expect(converted.total.total).toBe(165.5)
+    expect(converted.perVendor.map((group) => [group.name, group.total])).toEqual([
+      ["Eventim", 94.5],
+      ["DICE", 36],
+      ["Unknown", 35],
+    ])
+    expect(converted.missingRates).toEqual([])
+  })
+})
+
+describe("CSV cost columns", () => {
+  it("reads price, fees, currency and quantity", () => {
+    const csv = "SHOW,DATE,CITY,VENUE,PRICE,FEES,CURRENCY,QTY\nIdles,01.05.2025,London,Brixton,£32.50,\"3,10\",,2\n"
+    const { shows, errors } = parseGoogleSheetsCSVWithErrors(csv)
+    expect(errors).toEqual([])
+    expect(shows[0]).toMatchObject({ price: 32.5, fees: 3.1, currency: "GBP", quantity: 2 })
+  })
+
+  it("reports rows with an invalid amount", () => {
+    const csv = "SHOW,DATE,CITY,VENUE,PRICE\nIdles,01.05.2025,London,Brixton,free\n"
+    expect(parseGoogleSheetsCSVWithErrors(csv).errors[0].reason).toBe('Invalid price "free"')
+  })
+})
@@ -0,0 +1,29 @@
+import { supabase } from "./supabase"
+
+// Helper function to extract error message from response
+export async function getErrorMessage(response: Response, defaultMessage: string): Promise<string> {
+  try {
+    const error = await response.json()
+    return error.error || defaultMessage
+  } catch {
+    return `HTTP ${response.status}: ${response.statusText}`
+  }
+}
+
+// Authorization header with the signed-in user's access token (API routes act on behalf of this user)
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+// Offer a downloaded file to the user under the given name
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Some browsers start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,84 @@
+/**
+ * RFC 4180 CSV tokenizer. Handles quoted fields with embedded commas, newlines and
+ * escaped quotes (""), and LF, CRLF or CR line endings.
+ */
+
+export type CSVRecord = {
+  fields: string[]
+  line: number // 1-based line on which the record starts
+  raw: string // the record's source text, without the trailing line break
+}
+
+/** Yield records one at a time as they are completed, so callers can stop early or report per-row errors. */
+export function* iterateCSVRecords(text: string, delimiter = ","): Generator<CSVRecord> {
+  // Strip a UTF-8 BOM (Excel and some Google Sheets exports add one)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  let fields: string[] = []
+  let field = ""
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+  let recordStart = 0
+
+  const endRecord = (end: number): CSVRecord => {
+    fields.push(field)
+    const record = { fields, line: recordLine, raw: input.slice(recordStart, end) }
+    fields = []
+    field = ""
+    return record
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field.trim() === "") {
+      // Opening quote; whitespace before it is not part of the value
+      field = ""
+      inQuotes = true
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ""
+    } else if (char === "\r" || char === "\n") {
+      yield endRecord(i)
+      if (char === "\r" && input[i + 1] === "\n") i++
+      line++
+      recordLine = line
+      recordStart = i + 1
+    } else {
+      field += char
+    }
+  }
+
+  // Last record without a trailing line break
+  if (field !== "" || fields.length > 0) {
+    yield endRecord(input.length)
+  }
+}
+
+/** Quote a value for CSV output when it contains the delimiter, a quote or a line break. */
+export function escapeCSVField(value: string, delimiter = ","): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+export function toCSVRow(values: string[], delimiter = ","): string {
+  return values.map((value) => escapeCSVField(value, delimiter)).join(delimiter)
+}
@@ -1,3 +1,5 @@
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
 export type Database = {
   public: {
     Tables: {
@@ -15,6 +17,20 @@ export type Database = {
           note: string | null
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          user_id: string
+          uncertain_fields: string[]
+          order_number: string | null
+          quantity: number | null
+          seat: string | null
+          price: number | null
+          fees: number | null
+          currency: string | null
+          door_time: string | null
+          previous_dates: string[]
+          search_text: string // generated: lower-cased, unaccented show, city, venue and note
+          artist_id: string | null // set by the shows_link_entities trigger
+          venue_id: string | null
         }
         Insert: {
           id?: string
@@ -29,6 +45,19 @@ export type Database = {
           note?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          user_id?: string
+          uncertain_fields?: string[]
+          order_number?: string | null
+          quantity?: number | null
+          seat?: string | null
+          price?: number | null
+          fees?: number | null
+          currency?: string | null
+          door_time?: string | null
+          previous_dates?: string[]
+          artist_id?: string | null
+          venue_id?: string | null
         }
         Update: {
           id?: string
@@ -42,9 +71,278 @@ export type Database = {
           attendance?: "YES" | "NO" | "NOT YET" | "CANCELLED" | "POSTPONED"
           note?: string | null
           updated_at?: string
+          deleted_at?: string | null
+          user_id?: string
+          uncertain_fields?: string[]
+          order_number?: string | null
+          quantity?: number | null
+          seat?: string | null
+          price?: number | null
+          fees?: number | null
+          currency?: string | null
+          door_time?: string | null
+          previous_dates?: string[]
+          artist_id?: string | null
+          venue_id?: string | null
+        }
+        Relationships: [
+          { foreignKeyName: "shows_artist_id_fkey"; columns: ["artist_id"]; isOneToOne: false; referencedRelation: "artists"; referencedColumns: ["id"] },
+          { foreignKeyName: "shows_venue_id_fkey"; columns: ["venue_id"]; isOneToOne: false; referencedRelation: "venues"; referencedColumns: ["id"] },
+        ]
+      }
+      profiles: {
+        Row: {
+          user_id: string
+          calendar_token: string
+          inbound_alias: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          calendar_token?: string
+          inbound_alias?: string
+          created_at?: string
+        }
+        Update: {
+          calendar_token?: string
+          inbound_alias?: string
+        }
+        Relationships: []
+      }
+      inbound_senders: {
+        Row: {
+          id: string
+          user_id: string
+          email: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          email: string
+          created_at?: string
+        }
+        Update: {
+          email?: string
+        }
+        Relationships: []
+      }
+      pending_emails: {
+        Row: {
+          id: string
+          user_id: string
+          subject: string
+          sender: string
+          body: string
+          parsed: Json | null
+          reason: string
+          created_at: string
+          resolved_at: string | null
+          show_id: string | null
+          email_id: string | null // Resend email id, with item_index the event within the email
+          item_index: number
         }
+        Insert: {
+          id?: string
+          user_id?: string
+          subject?: string
+          sender?: string
+          body?: string
+          parsed?: Json | null
+          reason: string
+          created_at?: string
+          resolved_at?: string | null
+          show_id?: string | null
+          email_id?: string | null
+          item_index?: number
+        }
+        Update: {
+          resolved_at?: string | null
+          show_id?: string | null
+        }
+        Relationships: []
+      }
+      show_attachments: {
+        Row: {
+          id: string
+          user_id: string
+          show_id: string
+          filename: string
+          content_type: string
+          size: number
+          storage_path: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          show_id: string
+          filename: string
+          content_type: string
+          size?: number
+          storage_path: string
+          created_at?: string
+        }
+        Update: {
+          filename?: string
+        }
+        Relationships: [
+          { foreignKeyName: "show_attachments_show_id_fkey"; columns: ["show_id"]; isOneToOne: false; referencedRelation: "shows"; referencedColumns: ["id"] },
+        ]
+      }
+      inbound_events: {
+        Row: {
+          id: string
+          svix_id: string
+          email_id: string
+          user_id: string | null
+          subject: string
+          payload: Json
+          status: "received" | "parsed" | "created" | "failed"
+          error: string | null
+          result: Json | null
+          attempts: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          svix_id: string
+          email_id: string
+          user_id?: string | null
+          subject?: string
+          payload?: Json
+          status?: "received" | "parsed" | "created" | "failed"
+          error?: string | null
+          result?: Json | null
+          attempts?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string | null
+          subject?: string
+          status?: "received" | "parsed" | "created" | "failed"
+          error?: string | null
+          result?: Json | null
+          attempts?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      artists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          aliases: string[]
+          match_keys: string[] // generated: entity_key of name and aliases
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          name: string
+          aliases?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          aliases?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      venues: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          aliases: string[]
+          address: string | null
+          city: string
+          country: string | null
+          latitude: number | null
+          longitude: number | null
+          match_keys: string[] // generated: entity_key of name and aliases
+          city_key: string // generated: entity_key of city
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          name: string
+          aliases?: string[]
+          address?: string | null
+          city: string
+          country?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          aliases?: string[]
+          address?: string | null
+          city?: string
+          country?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          updated_at?: string
+        }
+        Relationships: []
       }
     }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      import_shows: {
+        Args: {
+          inserts?: Json
+          updates?: Json
+          delete_ids?: string[]
+        }
+        Returns: Json
+      }
+      search_shows: {
+        Args: {
+          search?: string
+          city_name?: string | null
+          venue_name?: string | null
+        }
+        Returns: Database["public"]["Tables"]["shows"]["Row"][]
+      }
+      entity_key_list: {
+        Args: {
+          names: string[]
+        }
+        Returns: string[]
+      }
+      merge_artists: {
+        Args: {
+          target_id: string
+          source_ids: string[]
+        }
+        Returns: number
+      }
+      merge_venues: {
+        Args: {
+          target_id: string
+          source_ids: string[]
+        }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
-
@@ -0,0 +1,199 @@
+import { extractEmailAddress } from "./inbound-routing"
+
+/**
+ * Language tables for ticket emails in English, German, French, Spanish and Dutch: month and
+ * weekday names, field labels, and the sender's locale, which decides whether 03/04/2026 is the
+ * 3rd of April or March 4th.
+ */
+
+export type EmailLanguage = "en" | "de" | "fr" | "es" | "nl"
+
+export type EmailLocale = {
+  language: EmailLanguage
+  dayFirst: boolean // 03/04/2026 is 3 April (true) or March 4 (false)
+}
+
+// Unknown senders writing English: US order, the parser's historical behaviour
+export const DEFAULT_LOCALE: EmailLocale = { language: "en", dayFirst: false }
+
+const LANGUAGES: EmailLanguage[] = ["en", "de", "fr", "es", "nl"]
+
+// January first; abbreviations are matched as prefixes ("Sept.", "févr.", "Okt"), so only
+// abbreviations that are not a prefix of the full name are listed
+const MONTH_NAMES: Record<EmailLanguage, string[][]> = {
+  en: [["january"], ["february"], ["march"], ["april"], ["may"], ["june"], ["july"], ["august"], ["september"], ["october"], ["november"], ["december"]],
+  de: [["januar", "jänner", "jän"], ["februar", "feber"], ["märz", "maerz", "mrz"], ["april"], ["mai"], ["juni"], ["juli"], ["august"], ["september"], ["oktober"], ["november"], ["dezember"]],
+  fr: [["janvier"], ["février", "fevrier"], ["mars"], ["avril"], ["mai"], ["juin"], ["juillet", "juil"], ["août", "aout"], ["septembre"], ["octobre"], ["novembre"], ["décembre", "decembre"]],
+  es: [["enero"], ["febrero"], ["marzo"], ["abril"], ["mayo"], ["junio"], ["julio"], ["agosto"], ["septiembre", "setiembre"], ["octubre"], ["noviembre"], ["diciembre"]],
+  nl: [["januari"], ["februari"], ["maart", "mrt"], ["april"], ["mei"], ["juni"], ["juli"], ["augustus"], ["september"], ["oktober"], ["november"], ["december"]],
+}
+
+// Sunday first, like Date.getUTCDay()
+const WEEKDAY_NAMES: Record<EmailLanguage, string[][]> = {
+  en: [["sunday"], ["monday"], ["tuesday"], ["wednesday"], ["thursday"], ["friday"], ["saturday"]],
+  de: [["sonntag"], ["montag"], ["dienstag"], ["mittwoch"], ["donnerstag"], ["freitag"], ["samstag", "sonnabend"]],
+  fr: [["dimanche"], ["lundi"], ["mardi"], ["mercredi"], ["jeudi"], ["vendredi"], ["samedi"]],
+  es: [["domingo"], ["lunes"], ["martes"], ["miércoles", "miercoles"], ["jueves"], ["viernes"], ["sábado", "sabado"]],
+  nl: [["zondag"], ["maandag"], ["dinsdag"], ["woensdag"], ["donderdag"], ["vrijdag"], ["zaterdag"]],
+}
+
+/** Field labels ("Label: value") in every supported language, most specific first. */
+export const FIELD_LABELS = {
+  show: [
+    "event",
+    "veranstaltung",
+    "concert",
+    "konzert",
+    "show",
+    "performance",
+    "artist",
+    "act",
+    "event name",
+    "eventtitel",
+    "künstler",
+    // French
+    "événement",
+    "evenement",
+    "spectacle",
+    "artiste",
+    // Spanish
+    "evento",
+    "concierto",
+    "espectáculo",
+    "artista",
+    // Dutch
+    "voorstelling",
+    "artiest",
+  ],
+  venue: [
+    "venue",
+    "location",
+    "where",
+    "place",
+    "at venue",
+    "ort",
+    "veranstaltungsort",
+    "theatre",
+    "theater",
+    "arena",
+    "hall",
+    "spielstätte",
+    // French
+    "lieu",
+    "salle",
+    // Spanish
+    "lugar",
+    "recinto",
+    "sala",
+    // Dutch
+    "locatie",
+    "zaal",
+  ],
+  city: [
+    "city",
+    "stadt",
+    "location",
+    "ville",
+    "ciudad",
+    "stad",
+    "plaats",
+  ],
+  date: [
+    // Checked after the line-start "Date:" / "Datum:" / "Fecha:" label
+    "when",
+    "event date",
+    "show date",
+    "concert date",
+    "veranstaltungsdatum",
+    "wann",
+    "termin",
+    // French
+    "quand",
+    "date de l'événement",
+    "date du concert",
+    // Spanish
+    "cuándo",
+    "cuando",
+    "fecha del evento",
+    // Dutch
+    "wanneer",
+  ],
+}
+
+function matchName(tables: Record<EmailLanguage, string[][]>, token: string, languages: EmailLanguage[], minPrefix: number): number | null {
+  const word = token.toLowerCase().replace(/\.$/, "")
+  if (word.length < minPrefix) return null
+  for (const language of languages) {
+    const index = tables[language].findIndex((names) => names.some((name) => name === word || name.startsWith(word)))
+    if (index >= 0) return index
+  }
+  return null
+}
+
+/** "März", "avril", "Sept." -> 1-12 */
+export function monthNumber(token: string): number | null {
+  const index = matchName(MONTH_NAMES, token, LANGUAGES, 3)
+  return index === null ? null : index + 1
+}
+
+/** "Mi.", "samedi", "Sat" -> 0-6 (Sunday = 0). Two-letter abbreviations differ by language ("ma"), so the email's language goes first. */
+export function weekdayNumber(token: string, language: EmailLanguage = "en"): number | null {
+  return matchName(WEEKDAY_NAMES, token, [language, ...LANGUAGES.filter((other) => other !== language)], 2)
+}
+
+// Frequent short words, enough to tell the languages apart in a few lines of text
+const STOPWORDS: Record<EmailLanguage, string[]> = {
+  en: ["the", "and", "your", "for", "with", "we", "tickets", "order", "thank"],
+  de: ["und", "der", "die", "das", "ihre", "ihr", "für", "mit", "wir", "bestellung", "karten"],
+  fr: ["le", "les", "et", "votre", "vos", "pour", "avec", "nous", "billets", "commande"],
+  es: ["el", "los", "las", "y", "su", "sus", "para", "con", "entradas", "pedido", "gracias"],
+  nl: ["het", "een", "en", "uw", "voor", "met", "wij", "kaarten", "bestelling", "bedankt"],
+}
+
+/** Most likely language of the text; null when there is too little text to tell. */
+export function detectLanguage(text: string): EmailLanguage | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? []
+  const counts = LANGUAGES.map((language) => {
+    const stopwords = new Set(STOPWORDS[language])
+    return words.filter((word) => stopwords.has(word)).length
+  })
+  const best = Math.max(...counts)
+  return best >= 3 ? LANGUAGES[counts.indexOf(best)] : null
+}
+
+const TLD_LOCALES: Record<string, EmailLocale> = {
+  de: { language: "de", dayFirst: true },
+  at: { language: "de", dayFirst: true },
+  ch: { language: "de", dayFirst: true },
+  fr: { language: "fr", dayFirst: true },
+  be: { language: "fr", dayFirst: true },
+  es: { language: "es", dayFirst: true },
+  mx: { language: "es", dayFirst: true },
+  ar: { language: "es", dayFirst: true },
+  nl: { language: "nl", dayFirst: true },
+  uk: { language: "en", dayFirst: true },
+  ie: { language: "en", dayFirst: true },
+  au: { language: "en", dayFirst: true },
+  nz: { language: "en", dayFirst: true },
+  us: { language: "en", dayFirst: false },
+}
+
+// .com senders that write British dates
+const DAY_FIRST_DOMAINS = ["seetickets.com"]
+
+function domainLocale(sender: string): EmailLocale | null {
+  const domain = extractEmailAddress(sender).split("@")[1] ?? ""
+  if (DAY_FIRST_DOMAINS.some((d) => domain === d || domain.endsWith(`.${d}`))) return { language: "en", dayFirst: true }
+  return TLD_LOCALES[domain.split(".").pop() ?? ""] ?? null
+}
+
+/**
+ * Locale of the original sender (the forwarded "From:" before the envelope sender, which is usually
+ * the user's own address) and the language the email is written in. Non-English emails use
+ * day-first dates even from .com senders.
+ */
+export function detectLocale(email: { senders: string[]; text: string }): EmailLocale {
+  const fromSender = [...email.senders].reverse().map(domainLocale).find(Boolean) ?? null
+  const language = detectLanguage(email.text) ?? fromSender?.language ?? DEFAULT_LOCALE.language
+  return { language, dayFirst: fromSender?.dayFirst ?? language !== "en" }
+}
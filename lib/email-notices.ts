@@ -0,0 +1,63 @@
+import { isReasonableEventYear, parseDate } from "./email-parsing"
+import { DEFAULT_LOCALE, type EmailLocale } from "./email-locales"
+
+/**
+ * Promoters and vendors send follow-up emails about shows that were already bought: the event is
+ * cancelled, moved to a new date, or the order is refunded. These are classified here so the webhook
+ * can update the existing show instead of creating a new one.
+ */
+
+export type EmailKind = "purchase" | "cancellation" | "postponement" | "refund"
+
+// Subject lines are short and to the point: a keyword is enough
+const SUBJECT_KEYWORDS: [Exclude<EmailKind, "purchase">, RegExp][] = [
+  ["postponement", /\b(?:postponed|rescheduled|new date|date change|verschoben|verlegt|neuer termin|ersatztermin)\b/i],
+  ["cancellation", /\b(?:cancel+ed|cancel+ation|abgesagt|absage|entfällt|fällt aus)\b/i],
+  ["refund", /\b(?:refund(?:ed)?|rückerstattung|erstattung)\b/i],
+]
+
+// Purchase emails mention cancellation and refund policies in the small print, so the body only
+// counts when it says the event itself was cancelled or moved
+const BODY_PHRASES: [Exclude<EmailKind, "purchase">, RegExp][] = [
+  [
+    "postponement",
+    /\b(?:has been|have been|was|were|is being|wurde|wird)\s+(?:postponed|rescheduled|moved|verschoben|verlegt)\b/i,
+  ],
+  ["cancellation", /\b(?:has been|have been|was|were|is|wurde|ist)\s+(?:cancel+ed|called off|abgesagt)\b/i],
+  ["refund", /\b(?:(?:has been|have been|was|will be|wird|wurde)\s+(?:refunded|erstattet|rückerstattet)|refund (?:has been|was) (?:issued|processed))\b/i],
+]
+
+/** What the email is about: a new ticket purchase, or a cancellation/postponement/refund notice. */
+export function classifyEmail(subject: string, text: string): EmailKind {
+  for (const [kind, pattern] of SUBJECT_KEYWORDS) {
+    if (pattern.test(subject)) return kind
+  }
+  for (const [kind, pattern] of BODY_PHRASES) {
+    if (pattern.test(text)) return kind
+  }
+  return "purchase"
+}
+
+// "New date: 20.09.2026", "postponed to 20 September 2026", "verschoben auf den 20.09.2026"
+const NEW_DATE_RE =
+  /\b(?:new date|new show date|rescheduled date|neuer termin|ersatztermin|neues datum|(?:postponed|rescheduled|moved)\s+(?:to|until|for)|(?:verschoben|verlegt)\s+auf)\s*(?:the|den|:)?\s*:?\s*([^\n]{1,60})/i
+
+/** The new event date of a postponement and the text it was found in, when the email gives one. */
+export function extractNewDate(text: string, locale: EmailLocale = DEFAULT_LOCALE): { date: string; match: string } | null {
+  const m = text.match(NEW_DATE_RE)
+  if (!m) return null
+  const date = parseDate(m[1], locale)
+  return date && isReasonableEventYear(date) ? { date, match: m[0] } : null
+}
+
+// "Event cancelled: Artist", "Artist – show postponed", "WICHTIG: Artist abgesagt"
+const NOTICE_WORDS_RE =
+  /\b(?:important|update|info|wichtig)\s*:|\b(?:(?:event|show|concert|konzert|veranstaltung)\s+)?(?:cancel+ed|cancel+ation|postponed|rescheduled|new date|abgesagt|verschoben|verlegt|refund(?:ed)?|rückerstattung)\b/gi
+
+/** Subject line with the notice wording removed, so the show name matches the original purchase. */
+export function stripNoticeWords(subject: string): string {
+  return subject
+    .replace(NOTICE_WORDS_RE, " ")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^[\s:–—\-|!]+|[\s:–—\-|!]+$/g, "")
+}
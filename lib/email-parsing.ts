@@ -0,0 +1,253 @@
+/**
+ * Shared text helpers for the ticket email parsers: HTML stripping, date parsing,
+ * labelled-value extraction and venue/city clean-up.
+ */
+
+import { DEFAULT_LOCALE, FIELD_LABELS, monthNumber, weekdayNumber, type EmailLocale } from "./email-locales"
+
+/** Strip tags, keeping block boundaries as line breaks so "Label: value" lines stay separate. */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(?:br|\/p|\/div|\/tr|\/li|\/h[1-6]|\/table)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n\s*/g, "\n")
+    .trim()
+}
+
+// Lines of a forwarded message header ("From:", "Subject:", ...) in the usual mail client languages
+const HEADER_LINE = /^\s*(?:from|von|de|van|da|to|an|à|para|aan|cc|subject|betreff|objet|asunto|onderwerp)\s*:/i
+const HEADER_DATE_LINE = /^\s*(?:date|datum|sent|gesendet|envoyé|enviado|verzonden|fecha)\s*:/i
+
+/** Drop the "Date:" lines of forwarded message headers: they say when the email was sent, not the event date. */
+export function stripForwardedHeaderDates(text: string): string {
+  const lines = text.split("\n")
+  return lines
+    .filter((line, i) => !(HEADER_DATE_LINE.test(line) && [lines[i - 1], lines[i + 1]].some((next) => next !== undefined && HEADER_LINE.test(next))))
+    .join("\n")
+}
+
+/** Title-case city name: HAMBURG -> Hamburg, new york -> New York */
+export function capitalizeCity(city: string): string {
+  return city
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ")
+}
+
+/** Never return a sentence as city: if it looks like one, take last city-like word or Unknown. */
+export function ensureCityNotSentence(value: string): string {
+  const trimmed = value.trim()
+  const parts = trimmed.split(/\s+/)
+  const looksLikeSentence =
+    parts.length > 4 ||
+    trimmed.length > 50 ||
+    /\b(you|can|so that|at any|when logged|please|click|access them|any time)\b/i.test(trimmed)
+  if (!looksLikeSentence) return trimmed
+  const words = parts.filter((w) => /^[a-zA-Z\u00C0-\u024F\-']{2,40}$/.test(w))
+  return words.length > 0 ? words[words.length - 1]! : "Unknown"
+}
+
+/** EVENTIM/order emails: get "Venue: ..." line only (avoid matching earlier "location" that can be sentence garbage). */
+export function extractVenueLineStrict(text: string): string | null {
+  const m = text.match(/\bVenue\s*:\s*([^\n<]+)/i)
+  if (!m || !m[1]) return null
+  const value = m[1].trim().replace(/\s+/g, " ").slice(0, 300)
+  return value.length > 0 ? value : null
+}
+
+// "20:00", "8:30 PM", "20h30", "20.00 Uhr", "8pm": removed before looking for the date
+const TIME_OF_DAY = /(?<![\d.:])\d{1,2}(?::\d{2}(?::\d{2})?\s*(?:am|pm|uhr|h)?|h\d{0,2}|\.\d{2}\s*uhr|\s*(?:am|pm|uhr))(?![\p{L}\d])/giu
+
+// "11. März 2026", "le 3 avril 2026", "3 de abril de 2026", "1er avril", "4th April"
+const DAY_MONTH = /(?<![\p{L}\d])(\d{1,2})(?:\.|er|st|nd|rd|th|º)?\s+(?:de\s+)?(\p{L}{3,12}\.?)(?:,?\s+(?:de\s+)?(\d{4}))?(?!\d)/giu
+// "March 11, 2026", "Mar 11 2026", "April 4th"
+const MONTH_DAY = /(?<![\p{L}])(\p{L}{3,12}\.?)\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?(?!\d)/giu
+
+// YYYY-MM-DD, or null when the day doesn't exist ("45.13.2026", "31.04.2026")
+function isoDate(year: number | string, month: number | string, day: number | string): string | null {
+  const [y, m, d] = [year, month, day].map((part) => Number(part))
+  const check = new Date(Date.UTC(y, m - 1, d))
+  if (check.getUTCFullYear() !== y || check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return null
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+// Day and month only ("Sa, 18.04.", "samedi 18 avril"): the weekday pins down the year, nearest first
+function yearFromWeekday(month: number, day: number, weekday: number | null): number | null {
+  if (weekday === null) return null
+  const currentYear = new Date().getFullYear()
+  return [currentYear, currentYear + 1, currentYear - 1].find((year) => {
+    const date = new Date(Date.UTC(year, month - 1, day))
+    return date.getUTCMonth() === month - 1 && date.getUTCDay() === weekday
+  }) ?? null
+}
+
+function monthNameDate(s: string, weekday: number | null): string | null {
+  for (const [re, dayGroup, monthGroup] of [[DAY_MONTH, 1, 2], [MONTH_DAY, 2, 1]] as const) {
+    for (const m of s.matchAll(re)) {
+      const month = monthNumber(m[monthGroup])
+      const day = parseInt(m[dayGroup], 10)
+      if (!month || day < 1 || day > 31) continue
+      const year = m[3] ? parseInt(m[3], 10) : yearFromWeekday(month, day, weekday)
+      const date = year ? isoDate(year, month, day) : null
+      if (date) return date
+    }
+  }
+  return null
+}
+
+/**
+ * Try to parse a date string into YYYY-MM-DD. Month names may be English, German, French, Spanish
+ * or Dutch; ambiguous numeric dates (03/04/2026) follow the locale, US order when unknown.
+ */
+export function parseDate(str: string, locale: EmailLocale = DEFAULT_LOCALE): string | null {
+  if (!str || str.length > 60) return null
+  const s = str.replace(TIME_OF_DAY, " ").trim()
+  // "Mi., 11.03.2026", "samedi 18 avril", "Sat 4 Apr"
+  const leadingWord = s.match(/^\p{L}+/u)?.[0]
+  const weekday = leadingWord ? weekdayNumber(leadingWord, locale.language) : null
+
+  // Already YYYY-MM-DD
+  const iso = /(\d{4})-(\d{2})-(\d{2})/.exec(s)
+  if (iso) return isoDate(iso[1], iso[2], iso[3])
+
+  // DD.MM.YYYY (Eventim / EU)
+  const dot = /(\d{1,2})\.(\d{1,2})\.(\d{4})/.exec(s)
+  if (dot) return isoDate(dot[3], dot[2], dot[1])
+
+  // DD/MM/YYYY or MM/DD/YYYY, also with dashes (Dutch): unambiguous when one part is > 12, else the locale decides
+  const numeric = /(\d{1,2})[/-](\d{1,2})[/-](\d{4})/.exec(s)
+  if (numeric) {
+    const [, a, b, year] = numeric
+    const dayFirst = parseInt(a, 10) > 12 || (parseInt(b, 10) <= 12 && locale.dayFirst)
+    return dayFirst ? isoDate(year, b, a) : isoDate(year, a, b)
+  }
+
+  const named = monthNameDate(s, weekday)
+  if (named) return named
+
+  // "Sa, 18.04." without a year
+  const short = /(?<![\d.])(\d{1,2})\.(\d{1,2})\.(?!\d)/.exec(s)
+  if (short) {
+    const year = yearFromWeekday(parseInt(short[2], 10), parseInt(short[1], 10), weekday)
+    if (year) return isoDate(year, short[2], short[1])
+  }
+
+  return null
+}
+
+export function isReasonableEventYear(parsedDate: string): boolean {
+  const y = parseInt(parsedDate.slice(0, 4), 10)
+  const currentYear = new Date().getFullYear()
+  return y >= currentYear - 1 && y <= currentYear + 2
+}
+
+/** Event date from a "Date:" / "When:" style label, the most reliable source */
+export function extractLabelledDate(text: string, locale: EmailLocale = DEFAULT_LOCALE): string | null {
+  // EVENTIM/order emails: prefer "Date: Wed, 11.03.2026" (event) over "Order date: 18.02.2026" (order)
+  // Match line that starts with "Date:", "Datum:" or "Fecha:" (event date), not "Order date"
+  const eventDateLabel = text.match(/(?:^|\n)\s*(?:Date|Datum|Fecha)\s*:\s*([^\n]+)/im)
+  if (eventDateLabel && eventDateLabel[1]) {
+    const parsed = parseDate(eventDateLabel[1], locale)
+    if (parsed && isReasonableEventYear(parsed)) return parsed
+  }
+
+  // Other date labels (when, event date, wann, quand, cuándo, ...)
+  const labelled = extractLabel(text, FIELD_LABELS.date)
+  if (labelled) {
+    const parsed = parseDate(labelled.slice(0, 60), locale)
+    if (parsed && isReasonableEventYear(parsed)) return parsed
+  }
+
+  return null
+}
+
+/** Find first date in text that looks like an event date (year >= current - 1) */
+export function extractDate(text: string, locale: EmailLocale = DEFAULT_LOCALE): string | null {
+  const labelled = extractLabelledDate(text, locale)
+  if (labelled) return labelled
+
+  // Standalone date patterns (DD.MM.YYYY first for Eventim)
+  const dotMatch = text.match(/\d{1,2}\.\d{1,2}\.\d{4}/)
+  if (dotMatch) {
+    const parsed = parseDate(dotMatch[0])
+    if (parsed && isReasonableEventYear(parsed)) return parsed
+  }
+
+  const isoMatch = text.match(/\d{4}-\d{2}-\d{2}/)
+  if (isoMatch) {
+    const parsed = parseDate(isoMatch[0])
+    if (parsed && isReasonableEventYear(parsed)) return parsed
+  }
+
+  const numericMatch = text.match(/\d{1,2}[/-]\d{1,2}[/-]\d{4}/)
+  if (numericMatch) {
+    const parsed = parseDate(numericMatch[0], locale)
+    if (parsed && isReasonableEventYear(parsed)) return parsed
+  }
+
+  // Month names in any supported language; a year is required outside a labelled date
+  const named = monthNameDate(text.replace(TIME_OF_DAY, " "), null)
+  if (named && isReasonableEventYear(named)) return named
+
+  return null
+}
+
+// "Label: value"; the colon is required so prose like "the event has been cancelled" is not a label
+export function extractLabel(text: string, labels: string[]): string | null {
+  for (const label of labels) {
+    // Letters-only lookbehind rather than \b, which does not see "é" or "ü" as word characters
+    const re = new RegExp(`(?<![\\p{L}\\d])${label.replace(/\s+/g, "\\s+")}\\s*:\\s*([^\\n<]+)`, "iu")
+    const m = re.exec(text)
+    if (m && m[1]) {
+      const value = m[1].trim().replace(/\s+/g, " ").slice(0, 200)
+      if (value.length > 0) return value
+    }
+  }
+  return null
+}
+
+/** Extract city from "PostalCode City" in venue text (e.g. "10999 Berlin" -> "Berlin"). */
+export function extractCityFromVenueLine(venueLine: string): string | null {
+  // Match 4–5 digit area/postal code (Dutch ones end in two letters: "1017 PH") followed by city name (one or two words, letters)
+  const m = venueLine.match(/\d{4,5}(?:\s?[A-Z]{2}(?=\s))?\s+([A-Za-z\u00C0-\u024F\-']+(?:\s+[A-Za-z\u00C0-\u024F\-']+)?)/)
+  if (!m || !m[1]) return null
+  const city = m[1].trim()
+  return city.length >= 2 && city.length <= 50 ? city : null
+}
+
+/** From one Venue sentence: first part = venue name (e.g. SO36), last part = city (e.g. Berlin from "10999 Berlin"). */
+export function parseVenueLine(venueLine: string): { venueName: string; cityFromVenue: string | null } {
+  const trimmed = venueLine.trim()
+  if (!trimmed) return { venueName: "Unknown", cityFromVenue: null }
+  const parts = trimmed.split(",").map((p) => p.trim()).filter(Boolean)
+  const venueName = parts[0] ?? trimmed
+  // City = last part of sentence (e.g. "10999 Berlin" -> "Berlin"); match postal+city pattern in whole line
+  const cityFromVenue =
+    extractCityFromVenueLine(trimmed) ??
+    (() => {
+      const last = parts[parts.length - 1]
+      if (last && parts.length > 1 && /^\d{4,5}\s+.+$/.test(last))
+        return last.replace(/^\d{4,5}\s+/, "").trim()
+      return parts.length > 1 ? (last ?? null) : null
+    })()
+  return {
+    venueName: venueName.replace(/\s+/g, "").toUpperCase() === "SO36" ? "SO36" : venueName,
+    cityFromVenue: cityFromVenue && cityFromVenue.length <= 50 ? cityFromVenue : null,
+  }
+}
+
+/** Reject sentence-like label value; use as-is if city-like, else take last word that looks like a city name. */
+export function sanitizeCityFromLabel(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed.length > 200) return null
+  const looksLikeSentence = /[?*]|https?:\/\/|\b(you|can|so that|at any|when logged|please|click)\b/i.test(trimmed)
+  // If short and city-like (no sentence), use as-is
+  if (!looksLikeSentence && trimmed.length <= 50 && /^[a-zA-Z\u00C0-\u024F\s\-'.]+$/.test(trimmed) && trimmed.split(/\s+/).length <= 3)
+    return trimmed
+  // Otherwise take last token that looks like a city (letters only, 2–40 chars), e.g. "... Berlin" -> "Berlin"
+  const words = trimmed.split(/\s+/).filter((w) => /^[a-zA-Z\u00C0-\u024F\-']{2,40}$/.test(w))
+  return words.length > 0 ? words[words.length - 1]! : null
+}
@@ -0,0 +1,116 @@
+/**
+ * Order details from ticket confirmation emails: order number, ticket count, seat, price, door time
+ * and where the ticket is kept. Every field is optional; vendors word these very differently.
+ */
+
+export type EmailTicketDetails = {
+  orderNumber: string | null
+  quantity: number | null
+  seat: string | null // "Section 104, Row F, Seat 12" or "General Admission"
+  price: number | null // order total
+  currency: string | null // ISO 4217, e.g. EUR
+  doorTime: string | null // HH:MM
+  location: string | null // where the ticket is: "In App", "PDF", "Box Office"
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "€": "EUR", $: "USD", "£": "GBP" }
+const CURRENCY = "(€|\\$|£|EUR|USD|GBP|CHF|DKK|SEK|NOK|PLN|CZK)"
+// 32.50, 32,50, 32.5, 1.234,50, 1,234.50, 1 234, 45, 1234.50 (group separators or none). Groups are
+// split by a space on the same line, never a line break: "€45\n10999 Berlin" is 45
+const AMOUNT = "(\\d{1,3}(?:[.,\\u00a0 ]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)"
+
+function normalizeCurrency(value: string): string {
+  return CURRENCY_SYMBOLS[value] ?? value.toUpperCase()
+}
+
+/** "1.234,50" / "1,234.50" / "32,50" / "32.5" -> number */
+function parseAmount(value: string): number | null {
+  const compact = value.replace(/\s/g, "")
+  const decimal = compact.match(/[.,](\d{1,2})$/)
+  const whole = (decimal ? compact.slice(0, -decimal[0].length) : compact).replace(/[.,]/g, "")
+  const amount = Number(decimal ? `${whole}.${decimal[1]}` : whole)
+  return Number.isFinite(amount) ? amount : null
+}
+
+function extractOrderNumber(text: string): string | null {
+  // "Order number: 123", "Order #: 12-34567/LON", "Bestellnummer 123", "order number 123" (Eventim subject),
+  // "Numéro de commande : 123", "Número de pedido: 123", "Bestelnummer: 123"
+  const re =
+    /(?:\b(?:order|booking|confirmation|bestell?|buchungs|auftrags)[\s-]*(?:number|no\.?|nr\.?|nummer|#|id)|\bnum[ée]ro de (?:commande|réservation)|\bn[úu]mero de (?:pedido|reserva))\s*[:#]?\s*([A-Z0-9][A-Z0-9\-\/]{3,40})/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text)) !== null) {
+    if (/\d/.test(m[1])) return m[1]
+  }
+  return null
+}
+
+function extractQuantity(text: string): number | null {
+  const m =
+    text.match(/\b(?:quantity|qty|tickets|anzahl|billets|entradas|cantidad|aantal)\s*:\s*(\d{1,2})\b/i) ??
+    text.match(/(?:^|\n)\s*(\d{1,2})\s*x\s+\S/i) ??
+    text.match(/\b(\d{1,2})\s+(?:tickets|karten)\b/i)
+  const quantity = m ? parseInt(m[1], 10) : NaN
+  return quantity > 0 ? quantity : null
+}
+
+function extractSeat(text: string): string | null {
+  // Keeps the email's own wording: "Section 104, Row F, Seat 12" or "Block C, Reihe 5, Platz 12"
+  const part = (labels: string) => {
+    // A number with an optional letter ("12", "12A", "A") so "see section below" is not a seat
+    const m = text.match(new RegExp(`\\b(${labels})\\s*:?\\s*([A-Z]?\\d{1,4}[A-Z]?|[A-Z])\\b`, "i"))
+    return m ? `${m[1].charAt(0).toUpperCase()}${m[1].slice(1).toLowerCase()} ${m[2]}` : null
+  }
+  const parts = [part("section|block|sektor"), part("row|reihe"), part("seat|sitzplatz|platz")].filter(Boolean)
+  if (parts.length > 0) return parts.join(", ")
+  return /\b(?:general admission|standing|stehplatz|unbestuhlt)\b/i.test(text) ? "General Admission" : null
+}
+
+function extractPrice(text: string): { price: number | null; currency: string | null } {
+  // Prefer the order total; otherwise the first amount with a currency
+  const totalRe = new RegExp(`\\b(?:total|gesamt(?:betrag|summe)?|summe|amount paid|order total)\\b[^\\n\\d€$£]{0,20}${CURRENCY}?\\s*${AMOUNT}\\s*${CURRENCY}?`, "i")
+  const anyRe = new RegExp(`${CURRENCY}\\s*${AMOUNT}|${AMOUNT}\\s*${CURRENCY}`, "i")
+
+  const total = text.match(totalRe)
+  if (total && (total[1] || total[3])) {
+    return { price: parseAmount(total[2]), currency: normalizeCurrency((total[1] || total[3])!) }
+  }
+  const any = text.match(anyRe)
+  if (any) {
+    const amount = any[2] ?? any[3]
+    const currency = any[1] ?? any[4]
+    return { price: parseAmount(amount!), currency: normalizeCurrency(currency!) }
+  }
+  return { price: null, currency: null }
+}
+
+function extractDoorTime(text: string): string | null {
+  const m = text.match(
+    /\b(?:doors?(?:\s+open)?|einlass|admission|ouverture des portes|apertura de puertas|deuren open)\s*(?:at|from|ab|à|:)?\s*(\d{1,2})[:.h](\d{2})\s*(am|pm)?/i
+  )
+  if (!m) return null
+  let hours = parseInt(m[1], 10)
+  const meridiem = m[3]?.toLowerCase()
+  // "Doors 20:75" or "13:00 pm" is not a time; the show column would reject it
+  if (parseInt(m[2], 10) > 59 || hours > (meridiem ? 12 : 23) || (meridiem && hours === 0)) return null
+  if (meridiem === "pm" && hours < 12) hours += 12
+  if (meridiem === "am" && hours === 12) hours = 0
+  return `${String(hours).padStart(2, "0")}:${m[2]}`
+}
+
+function extractTicketLocation(text: string): string | null {
+  if (/\b(?:print@home|print at home|ticketdirect|pdf ticket|e-ticket attached|tickets? (?:is|are) attached|en pièce jointe|im anhang|adjuntas?|in de bijlage)(?![\p{L}])/iu.test(text)) return "PDF"
+  if (/\b(?:will call|box office pick-?up|abendkasse hinterlegt|collect at the box office)\b/i.test(text)) return "Box Office"
+  if (/\b(?:in the app|mobile ticket|app ticket|wallet|in der app|dans l'application|en la app|in de app)\b/i.test(text)) return "In App"
+  return null
+}
+
+export function extractTicketDetails(text: string): EmailTicketDetails {
+  return {
+    orderNumber: extractOrderNumber(text),
+    quantity: extractQuantity(text),
+    seat: extractSeat(text),
+    ...extractPrice(text),
+    doorTime: extractDoorTime(text),
+    location: extractTicketLocation(text),
+  }
+}
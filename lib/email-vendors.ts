@@ -0,0 +1,184 @@
+import { extractLabel, isReasonableEventYear, parseDate } from "./email-parsing"
+import { extractEmailAddress } from "./inbound-routing"
+import type { EmailLocale } from "./email-locales"
+
+/**
+ * Vendor-specific ticket email parsers. Each vendor detects its own emails (sender domain first,
+ * subject as a fallback for forwards without headers) and extracts what its template makes reliable;
+ * anything it leaves out is filled in by the generic heuristics in parse-show-from-email.
+ *
+ * To support a new vendor, add an entry to VENDOR_PARSERS. Order matters: the first match wins.
+ */
+
+export type VendorEmail = {
+  subject: string
+  text: string // plain text, HTML already stripped
+  senders: string[] // "Name <address>" of the envelope sender and any forwarded "From:" lines
+  locale?: EmailLocale // set before parse(): decides DD/MM vs MM/DD
+}
+
+export type VendorFields = {
+  show?: string
+  date?: string // YYYY-MM-DD
+  city?: string
+  venue?: string // venue line; "Venue, City" is split like a "Venue:" label
+}
+
+export type VendorParser = {
+  name: string // stored as the show's ticket vendor
+  detect: (email: VendorEmail) => boolean
+  parse: (email: VendorEmail) => VendorFields
+}
+
+/** "From: Eventim <noreply@eventim.de>" lines of forwarded messages, in any of the usual client languages */
+export function extractForwardedSenders(text: string): string[] {
+  const senders: string[] = []
+  // HTML bodies quote the address as &lt;address&gt;
+  const decoded = text.replace(/&lt;/g, "<").replace(/&gt;/g, ">")
+  const re = /\b(?:From|Von|De|Van|Da)\s*:\s*([^\n<]{0,80}<[^>\s]+@[^>\s]+>|[^\s<]+@[\w-]+(?:\.[\w-]+)+)/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(decoded)) !== null) senders.push(m[1].trim())
+  return senders
+}
+
+function getDomain(sender: string): string {
+  return extractEmailAddress(sender).split("@")[1] ?? ""
+}
+
+// Matches the domain itself and its subdomains (mail.eventim.de, email.ticketmaster.com)
+function fromDomain(email: VendorEmail, domains: string[]): boolean {
+  return email.senders.some((sender) => {
+    const domain = getDomain(sender)
+    return domains.some((d) => domain === d || domain.endsWith(`.${d}`))
+  })
+}
+
+function clean(value: string | undefined | null): string | undefined {
+  const trimmed = value?.trim().replace(/\s+/g, " ").replace(/[!.]+$/, "").slice(0, 200)
+  return trimmed || undefined
+}
+
+/** "Your tickets for Artist at Venue" -> { show: "Artist", venue: "Venue" } */
+function parseTicketsForSubject(subject: string): VendorFields {
+  const m = subject.match(/\btickets?\s+(?:for|to)\s*:?\s+(.+?)(?:\s+(?:at|@)\s+(.+))?$/i)
+  return m ? { show: clean(m[1]), venue: clean(m[2]) } : {}
+}
+
+// DICE/Bandsintown tickets put the event date on its own line, followed by "Venue, City"
+function parseDateAndVenueLines(text: string, locale?: EmailLocale): VendorFields {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean)
+  for (let i = 0; i < lines.length; i++) {
+    const date = parseDate(lines[i], locale)
+    if (date && isReasonableEventYear(date)) return { date, venue: clean(lines[i + 1]) }
+  }
+  return {}
+}
+
+/** EVENTIM subject: "Your EVENTIM order: Artist - order number 123" */
+function extractEventimShowFromSubject(subject: string): string | null {
+  const m = subject.match(/\bEVENTIM\s+order\s*:\s*(.+?)\s*-\s*order\s+number\s+\d+/i)
+  return m ? m[1].trim().slice(0, 200) : null
+}
+
+/** EVENTIM body line: "Artist, City, DD.MM.YYYY" (e.g. Psychedelic Porn Crumpets, Berlin, 11.03.2026) */
+function extractEventimArtistCityDate(text: string): {
+  show: string
+  city: string
+  date: string | null
+} | null {
+  // Try full-line match first (plain text), then inline (stripped HTML)
+  const m =
+    text.match(/^([^,\n]+),\s*([^,\n]+),\s*(\d{1,2}\.\d{1,2}\.\d{4})\s*$/m) ??
+    text.match(/([^,\n]+),\s*([^,\n]+),\s*(\d{1,2}\.\d{1,2}\.\d{4})\b/)
+  if (!m || !m[1] || !m[2] || !m[3]) return null
+  const [, show, city, dateStr] = m
+  const parsed = parseDate(dateStr)
+  if (!parsed || !isReasonableEventYear(parsed)) return null
+  return { show: show.trim().slice(0, 200), city: city.trim(), date: parsed }
+}
+
+const eventim: VendorParser = {
+  name: "Eventim",
+  detect: (email) =>
+    fromDomain(email, ["eventim.de", "eventim.com", "eventim.at", "eventim.ch", "eventim.co.uk", "eventim.nl"]) ||
+    /\bEVENTIM\b/i.test(email.subject),
+  parse: ({ subject, text }) => {
+    const fromBody = extractEventimArtistCityDate(text)
+    return {
+      show: extractEventimShowFromSubject(subject) ?? fromBody?.show,
+      date: fromBody?.date ?? undefined,
+      city: fromBody?.city,
+    }
+  },
+}
+
+const ticketmaster: VendorParser = {
+  name: "Ticketmaster",
+  detect: (email) =>
+    fromDomain(email, ["ticketmaster.com", "ticketmaster.de", "ticketmaster.co.uk", "ticketmaster.nl", "ticketmaster.at", "livenation.com"]) ||
+    /\bticketmaster\b/i.test(email.subject),
+  parse: ({ subject }) => {
+    // "You Got Tickets To Artist!", "Your Ticket Confirmation - Artist", "Your order for Artist"
+    const m = subject.match(/(?:\btickets?\s+to|\bconfirmation\s*[-–:]|\border\s+for)\s+(.+)$/i)
+    return { show: clean(m?.[1]) }
+  },
+}
+
+const seeTickets: VendorParser = {
+  name: "See Tickets",
+  detect: (email) => fromDomain(email, ["seetickets.com", "seetickets.us"]) || /\bsee\s*tickets\b/i.test(email.subject),
+  parse: ({ subject, text }) => {
+    // "Your See Tickets order confirmation: Artist"; the body has "Event:" / "Venue:" labels
+    const m = subject.match(/\bconfirmation\s*[-–:]\s*(.+)$/i)
+    return { show: clean(m?.[1]) ?? clean(extractLabel(text, ["event"])) }
+  },
+}
+
+const dice: VendorParser = {
+  name: "DICE",
+  detect: (email) => fromDomain(email, ["dice.fm"]) || /\bDICE\b/.test(email.subject),
+  parse: ({ subject, text, locale }) => {
+    // "You're going to Artist!" or "Your tickets for Artist"; the ticket lists date, then "Venue, City"
+    const going = subject.match(/\byou(?:'|’)?re\s+going\s+to\s+(.+)$/i)
+    return { show: clean(going?.[1]) ?? parseTicketsForSubject(subject).show, ...parseDateAndVenueLines(text, locale) }
+  },
+}
+
+const residentAdvisor: VendorParser = {
+  name: "Resident Advisor",
+  detect: (email) =>
+    fromDomain(email, ["ra.co", "residentadvisor.net"]) || /\b(?:Resident Advisor|RA tickets?)\b/i.test(email.subject),
+  // "Your RA tickets for Event at Venue"
+  parse: ({ subject }) => parseTicketsForSubject(subject),
+}
+
+const bandsintown: VendorParser = {
+  name: "Bandsintown",
+  detect: (email) => fromDomain(email, ["bandsintown.com"]) || /\bbandsintown\b/i.test(email.subject),
+  parse: ({ subject, text, locale }) => {
+    // "Your tickets for Artist at Venue"; the body's "Venue, City" line also carries the city
+    const fromSubject = parseTicketsForSubject(subject)
+    const fromBody = parseDateAndVenueLines(text, locale)
+    return { show: fromSubject.show, date: fromBody.date, venue: fromBody.venue ?? fromSubject.venue }
+  },
+}
+
+// Small venues selling directly; the sender name is usually the venue ("SO36 Box Office <tickets@so36.de>")
+const BOX_OFFICE = /\b(?:box\s*office|abendkasse|ticket\s*shop)\b/i
+
+const boxOffice: VendorParser = {
+  name: "Box Office",
+  detect: (email) => email.senders.some((sender) => BOX_OFFICE.test(sender)) || BOX_OFFICE.test(email.subject),
+  parse: ({ senders }) => {
+    const sender = senders.find((value) => BOX_OFFICE.test(value))
+    const displayName = sender?.match(/^"?([^"<]+?)"?\s*</)?.[1]
+    const venue = displayName?.replace(BOX_OFFICE, "").replace(/[-–|:]+\s*$/, "")
+    return { venue: clean(venue) }
+  },
+}
+
+export const VENDOR_PARSERS: VendorParser[] = [eventim, ticketmaster, seeTickets, dice, residentAdvisor, bandsintown, boxOffice]
+
+export function detectVendor(email: VendorEmail): VendorParser | null {
+  return VENDOR_PARSERS.find((parser) => parser.detect(email)) ?? null
+}
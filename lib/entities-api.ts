@@ -0,0 +1,86 @@
+import { getAuthHeaders, getErrorMessage } from "./api-client"
+import type { Artist, ArtistUpdate, Venue, VenueUpdate } from "./entities"
+
+async function fetchList<T>(path: string, key: string, failure: string): Promise<T[]> {
+  const response = await fetch(path, { headers: await getAuthHeaders() })
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, failure))
+  }
+  const data = await response.json()
+  return data[key] || []
+}
+
+async function sendJson(path: string, method: string, body: unknown, failure: string) {
+  const response = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(await getAuthHeaders()),
+    },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, failure))
+  }
+  return response.json()
+}
+
+export async function fetchArtists(): Promise<Artist[]> {
+  try {
+    return await fetchList<Artist>("/api/artists", "artists", "Failed to load artists")
+  } catch (error) {
+    console.error("Error fetching artists:", error)
+    throw error
+  }
+}
+
+export async function updateArtist(update: ArtistUpdate): Promise<Artist> {
+  try {
+    const data = await sendJson("/api/artists", "PATCH", update, "Failed to update artist")
+    return data.artist
+  } catch (error) {
+    console.error("Error updating artist:", error)
+    throw error
+  }
+}
+
+/** Merge ids into targetId. Resolves to the number of shows that moved. */
+export async function mergeArtists(targetId: string, ids: string[]): Promise<number> {
+  try {
+    const data = await sendJson("/api/artists/merge", "POST", { targetId, ids }, "Failed to merge artists")
+    return data.moved
+  } catch (error) {
+    console.error("Error merging artists:", error)
+    throw error
+  }
+}
+
+export async function fetchVenues(): Promise<Venue[]> {
+  try {
+    return await fetchList<Venue>("/api/venues", "venues", "Failed to load venues")
+  } catch (error) {
+    console.error("Error fetching venues:", error)
+    throw error
+  }
+}
+
+export async function updateVenue(update: VenueUpdate): Promise<Venue> {
+  try {
+    const data = await sendJson("/api/venues", "PATCH", update, "Failed to update venue")
+    return data.venue
+  } catch (error) {
+    console.error("Error updating venue:", error)
+    throw error
+  }
+}
+
+/** Merge ids into targetId. Resolves to the number of shows that moved. */
+export async function mergeVenues(targetId: string, ids: string[]): Promise<number> {
+  try {
+    const data = await sendJson("/api/venues/merge", "POST", { targetId, ids }, "Failed to merge venues")
+    return data.moved
+  } catch (error) {
+    console.error("Error merging venues:", error)
+    throw error
+  }
+}
@@ -0,0 +1,231 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "./database.types"
+import type { Show } from "./shows"
+
+/**
+ * Artists and venues as records of their own (migration 014). Shows link to them by id and carry
+ * the record's name in their show / venue / city text, which the shows_link_entities trigger keeps
+ * in sync: names are matched by entity key against each record's name and aliases. Duplicates are
+ * collapsed with a merge, which turns the other names into aliases. Entity keys are only computed
+ * by entity_key in the database (fetchEntityKeys), so the app matches names exactly like the trigger.
+ */
+
+export type Artist = {
+  id: string
+  name: string
+  aliases: string[]
+  showCount: number
+}
+
+export type Venue = {
+  id: string
+  name: string
+  aliases: string[]
+  address?: string
+  city: string
+  country?: string // ISO 3166-1 alpha-2, e.g. DE
+  latitude?: number
+  longitude?: number
+  showCount: number
+}
+
+// PATCH /api/artists and /api/venues: omitted fields are left alone, null clears a venue detail
+export type ArtistUpdate = { id: string; name?: string; aliases?: string[] }
+
+export type VenueUpdate = {
+  id: string
+  name?: string
+  aliases?: string[]
+  address?: string | null
+  city?: string
+  country?: string | null
+  latitude?: number | null
+  longitude?: number | null
+}
+
+export type ArtistRow = Database["public"]["Tables"]["artists"]["Row"]
+export type VenueRow = Database["public"]["Tables"]["venues"]["Row"]
+
+// Records embed the count of their non-deleted shows
+export const ARTIST_SELECT = "id, name, aliases, shows(count)"
+export const VENUE_SELECT = "id, name, aliases, address, city, country, latitude, longitude, shows(count)"
+
+type WithShowCount = { shows?: { count: number }[] }
+
+// Maps a name to its entity key
+export type EntityKeyOf = (name: string) => string
+
+/** entity_key of each name, from the database. Names it was not asked for fall back to lower case. */
+export async function fetchEntityKeys(client: SupabaseClient<Database>, names: string[]): Promise<EntityKeyOf> {
+  const unique = [...new Set(names.map((name) => name.trim()))]
+  const keys = new Map<string, string>()
+  if (unique.length > 0) {
+    const { data, error } = await client.rpc("entity_key_list", { names: unique })
+    if (error) throw new Error(`Failed to match names: ${error.message}`)
+    ;(data ?? []).forEach((key, index) => keys.set(unique[index], key))
+  }
+  return (name) => keys.get(name.trim()) ?? name.trim().toLowerCase()
+}
+
+/**
+ * "SO 36" / "so36" / "Só-36" -> "so36", for filtering lists in the browser. Close to entity_key
+ * but not the same (unaccent also folds letters like ø and ß), so never use it to link or dedupe.
+ */
+export function searchKey(value: string): string {
+  const key = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, "")
+  return key || value.trim().toLowerCase()
+}
+
+export function artistFromRow(row: Pick<ArtistRow, "id" | "name" | "aliases"> & WithShowCount): Artist {
+  return { id: row.id, name: row.name, aliases: row.aliases, showCount: row.shows?.[0]?.count ?? 0 }
+}
+
+export function venueFromRow(
+  row: Pick<VenueRow, "id" | "name" | "aliases" | "address" | "city" | "country" | "latitude" | "longitude"> & WithShowCount
+): Venue {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.aliases,
+    address: row.address ?? undefined,
+    city: row.city,
+    country: row.country ?? undefined,
+    latitude: row.latitude ?? undefined,
+    longitude: row.longitude ?? undefined,
+    showCount: row.shows?.[0]?.count ?? 0,
+  }
+}
+
+function parseName(value: unknown, field: string): string | { error: string } {
+  return typeof value === "string" && value.trim() ? value.trim() : { error: `${field} must not be empty` }
+}
+
+// Trimmed, without blanks and without repeating the name itself
+function parseAliases(value: unknown, name: string | undefined, keyOf: EntityKeyOf): string[] | { error: string } {
+  if (!Array.isArray(value) || value.some((alias) => typeof alias !== "string")) {
+    return { error: "aliases must be a list of names" }
+  }
+  const nameKey = name === undefined ? null : keyOf(name)
+  const seen = new Set<string>()
+  return (value as string[])
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = keyOf(alias)
+      if (!alias || key === nameKey || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * The saved name of an artist or venue, for an update that changes its aliases but not its name.
+ * Undefined when nothing needs it or the record doesn't exist (the update then finds no row).
+ */
+export async function fetchStoredName(
+  client: SupabaseClient<Database>,
+  table: "artists" | "venues",
+  body: ArtistUpdate | VenueUpdate
+): Promise<string | undefined> {
+  if (body.name !== undefined || body.aliases === undefined) return undefined
+  const { data, error } = await client.from(table).select("name").eq("id", body.id).maybeSingle()
+  if (error) throw new Error(`Failed to load the saved name: ${error.message}`)
+  return data?.name
+}
+
+/** The names whose keys parseArtistUpdate and parseVenueUpdate need, for fetchEntityKeys. */
+export function updateNames(body: ArtistUpdate | VenueUpdate, storedName?: string): string[] {
+  const names = [body.name, storedName, ...(Array.isArray(body.aliases) ? body.aliases : [])]
+  return names.filter((name): name is string => typeof name === "string")
+}
+
+export function parseArtistUpdate(
+  body: ArtistUpdate,
+  keyOf: EntityKeyOf,
+  storedName?: string
+): { update: Database["public"]["Tables"]["artists"]["Update"] } | { error: string } {
+  const update: Database["public"]["Tables"]["artists"]["Update"] = {}
+  if (body.name !== undefined) {
+    const name = parseName(body.name, "name")
+    if (typeof name !== "string") return name
+    update.name = name
+  }
+  if (body.aliases !== undefined) {
+    const aliases = parseAliases(body.aliases, update.name ?? storedName, keyOf)
+    if (!Array.isArray(aliases)) return aliases
+    update.aliases = aliases
+  }
+  return { update: { ...update, updated_at: new Date().toISOString() } }
+}
+
+export function parseVenueUpdate(
+  body: VenueUpdate,
+  keyOf: EntityKeyOf,
+  storedName?: string
+): { update: Database["public"]["Tables"]["venues"]["Update"] } | { error: string } {
+  const update: Database["public"]["Tables"]["venues"]["Update"] = {}
+  for (const field of ["name", "city"] as const) {
+    if (body[field] === undefined) continue
+    const value = parseName(body[field], field)
+    if (typeof value !== "string") return value
+    update[field] = value
+  }
+  if (body.aliases !== undefined) {
+    const aliases = parseAliases(body.aliases, update.name ?? storedName, keyOf)
+    if (!Array.isArray(aliases)) return aliases
+    update.aliases = aliases
+  }
+  if (body.address !== undefined) update.address = body.address?.trim() || null
+  if (body.country !== undefined) {
+    const country = body.country?.trim().toUpperCase() || null
+    if (country && !/^[A-Z]{2}$/.test(country)) return { error: `Invalid country: ${body.country}. Expected a two-letter code like DE.` }
+    update.country = country
+  }
+  const ranges = { latitude: 90, longitude: 180 } as const
+  for (const field of ["latitude", "longitude"] as const) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value !== null && (typeof value !== "number" || !Number.isFinite(value) || Math.abs(value) > ranges[field])) {
+      return { error: `Invalid ${field}: ${value}` }
+    }
+    update[field] = value
+  }
+  return { update: { ...update, updated_at: new Date().toISOString() } }
+}
+
+/**
+ * Imported rows under their records' names, so a row that spells a venue "SO 36" or uses an alias
+ * matches the saved show at "SO36" instead of being added a second time. Records bring their
+ * match_keys / city_key; keyOf gives the keys of the rows' names (see fetchEntityKeys).
+ */
+export function canonicalizeShows(
+  shows: Show[],
+  artists: Pick<ArtistRow, "name" | "match_keys">[],
+  venues: Pick<VenueRow, "name" | "city" | "match_keys" | "city_key">[],
+  keyOf: EntityKeyOf
+): Show[] {
+  const artistNames = new Map<string, string>()
+  for (const artist of artists) {
+    for (const key of artist.match_keys) {
+      if (!artistNames.has(key)) artistNames.set(key, artist.name)
+    }
+  }
+  const venueNames = new Map<string, Pick<VenueRow, "name" | "city">>()
+  for (const venue of venues) {
+    for (const key of venue.match_keys) {
+      if (!venueNames.has(`${key}|${venue.city_key}`)) venueNames.set(`${key}|${venue.city_key}`, venue)
+    }
+  }
+
+  return shows.map((show) => {
+    const venue = venueNames.get(`${keyOf(show.venue)}|${keyOf(show.city)}`)
+    return {
+      ...show,
+      show: artistNames.get(keyOf(show.show)) ?? show.show,
+      ...(venue && { venue: venue.name, city: venue.city }),
+    }
+  })
+}
@@ -0,0 +1,123 @@
+import type { Show } from "./shows"
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for show exports and calendar feeds.
+ * Shows are all-day events; the UID is derived from the show id so re-exports update
+ * existing calendar entries instead of duplicating them.
+ */
+
+export type ICalEvent = {
+  uid: string
+  date: string // YYYY-MM-DD
+  summary: string
+  location?: string
+  description?: string
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+  lastModified?: string // ISO timestamp
+}
+
+const ICAL_STATUS: Record<Show["attendance"], ICalEvent["status"]> = {
+  YES: "CONFIRMED",
+  NO: "CONFIRMED",
+  "NOT YET": "CONFIRMED",
+  CANCELLED: "CANCELLED",
+  POSTPONED: "TENTATIVE",
+}
+
+// Escape TEXT values: backslash, semicolon, comma and line breaks
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// Fold content lines longer than 75 octets (continuation lines start with a space)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ""
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length
+    // First line may hold 75 octets, continuation lines 74 plus the leading space
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + charBytes > limit) {
+      parts.push(current)
+      current = ""
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "")
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+export function showToICalEvent(show: Show, lastModified?: string): ICalEvent {
+  const ticketInfo = show.ticket === "YES"
+    ? [show.ticketVendor, show.ticketLocation].filter((value) => value && value !== "N/A").join(" · ")
+    : ""
+  const description = [
+    show.note,
+    ticketInfo ? `Ticket: ${ticketInfo}` : show.ticket === "NO" ? "No ticket yet" : "",
+  ].filter(Boolean).join("\n")
+
+  return {
+    uid: `${show.id ?? `${show.date}-${show.show.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`}@sona`,
+    date: show.date,
+    summary: show.attendance === "CANCELLED" || show.attendance === "POSTPONED" ? `${show.show} (${show.attendance})` : show.show,
+    location: [show.venue, show.city].filter(Boolean).join(", "),
+    description: description || undefined,
+    status: ICAL_STATUS[show.attendance],
+    lastModified,
+  }
+}
+
+// refreshInterval is an ISO 8601 duration (e.g. "PT1H") telling subscribed calendars how often to re-fetch
+export function buildICalendar(events: ICalEvent[], options: { name: string; now?: Date; refreshInterval?: string }): string {
+  const stamp = formatTimestamp(options.now ?? new Date())
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SONA//Show Tracker//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ]
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`, `X-PUBLISHED-TTL:${options.refreshInterval}`)
+  }
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    )
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.status) lines.push(`STATUS:${event.status}`)
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatTimestamp(new Date(event.lastModified))}`)
+    lines.push("END:VEVENT")
+  }
+
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
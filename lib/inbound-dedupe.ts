@@ -0,0 +1,107 @@
+import type { Database } from "./database.types"
+import type { EmailKind } from "./email-notices"
+import type { DbRow } from "./shows-db"
+
+/**
+ * Duplicate detection for shows created from forwarded emails. The same order is often forwarded
+ * twice (or order email + e-ticket email), so before inserting we look for an existing show with the
+ * same normalized name and date at the same venue or city, and merge new details into it instead.
+ * Cancellation, postponement and refund emails are matched to the show they are about the same way.
+ */
+
+type DbInsert = Database["public"]["Tables"]["shows"]["Insert"]
+type DbUpdate = Database["public"]["Tables"]["shows"]["Update"]
+
+// Placeholder values the parser and webhook use when a field could not be extracted
+const PLACEHOLDERS = new Set(["", "unknown", "n/a"])
+
+/** "Sigur Rós – Live!" -> "sigur ros live" */
+export function normalizeForMatch(value: string | null | undefined): string {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function isPlaceholder(value: string | null | undefined): boolean {
+  return PLACEHOLDERS.has(normalizeForMatch(value))
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const left = normalizeForMatch(a)
+  const right = normalizeForMatch(b)
+  if (!left || !right) return false
+  // "Artist" vs "Artist Tour 2026" from the subject line of a second email
+  return left === right || left.startsWith(`${right} `) || right.startsWith(`${left} `)
+}
+
+function placeMatches(existing: string, incoming: string | undefined): boolean {
+  return !isPlaceholder(existing) && !isPlaceholder(incoming) && normalizeForMatch(existing) === normalizeForMatch(incoming)
+}
+
+/** Existing show (same date, candidates pre-filtered by the caller) that the incoming show duplicates. */
+export function findDuplicateShow(candidates: DbRow[], incoming: DbInsert): DbRow | null {
+  const incomingHasPlace = !isPlaceholder(incoming.venue) || !isPlaceholder(incoming.city)
+  return (
+    candidates.find(
+      (row) =>
+        row.date === incoming.date &&
+        namesMatch(row.show, incoming.show) &&
+        // Without a venue or city in the new email, name + date is all we can go on
+        (!incomingHasPlace || placeMatches(row.venue, incoming.venue) || placeMatches(row.city, incoming.city))
+    ) ?? null
+  )
+}
+
+/** Fill fields that are empty (or placeholders) on the existing show with values from the new email. */
+export function mergeInboundShow(existing: DbRow, incoming: DbInsert): DbUpdate {
+  const update: DbUpdate = {}
+  if (isPlaceholder(existing.city) && !isPlaceholder(incoming.city)) update.city = incoming.city
+  if (isPlaceholder(existing.venue) && !isPlaceholder(incoming.venue)) update.venue = incoming.venue
+  if (existing.ticket === "NO" && incoming.ticket === "YES") update.ticket = "YES"
+  if (isPlaceholder(existing.ticket_vendor) && !isPlaceholder(incoming.ticket_vendor)) update.ticket_vendor = incoming.ticket_vendor
+  if (isPlaceholder(existing.ticket_location) && !isPlaceholder(incoming.ticket_location)) update.ticket_location = incoming.ticket_location
+  if (!existing.note && incoming.note) update.note = incoming.note
+  // Order details: the e-ticket email often has the seat the order confirmation lacked
+  if (!existing.order_number && incoming.order_number) update.order_number = incoming.order_number
+  if (!existing.quantity && incoming.quantity) update.quantity = incoming.quantity
+  if (!existing.seat && incoming.seat) update.seat = incoming.seat
+  if (existing.price === null && incoming.price != null) {
+    update.price = incoming.price
+    update.currency = incoming.currency
+  }
+  if (!existing.door_time && incoming.door_time) update.door_time = incoming.door_time
+  return update
+}
+
+/**
+ * Show a cancellation, postponement or refund email is about. Candidates are the account's shows on
+ * the email's date (or moved away from it), or its upcoming shows when the email has no date; the venue or city only decides
+ * between several shows with the same name. Ambiguous notices match nothing.
+ */
+export function findNoticedShow(
+  candidates: DbRow[],
+  notice: { show: string; date: string | null; venue: string; city: string }
+): DbRow | null {
+  const byName = candidates.filter(
+    (row) =>
+      (!notice.date || row.date === notice.date || (row.previous_dates ?? []).includes(notice.date)) &&
+      namesMatch(row.show, notice.show)
+  )
+  if (byName.length <= 1) return byName[0] ?? null
+  const byPlace = byName.filter((row) => placeMatches(row.venue, notice.venue) || placeMatches(row.city, notice.city))
+  return byPlace.length === 1 ? byPlace[0] : null
+}
+
+/** Status change for a noticed show; a postponement's new date replaces the old one, which is kept in previous_dates. */
+export function noticeUpdate(existing: Pick<DbRow, "date" | "previous_dates">, kind: Exclude<EmailKind, "purchase">, newDate: string | null): DbUpdate {
+  if (kind !== "postponement") return { attendance: "CANCELLED" }
+  const update: DbUpdate = { attendance: "POSTPONED" }
+  if (newDate && newDate !== existing.date) {
+    update.date = newDate
+    update.previous_dates = [...(existing.previous_dates ?? []), existing.date]
+  }
+  return update
+}
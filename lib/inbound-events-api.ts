@@ -0,0 +1,49 @@
+import { getAuthHeaders, getErrorMessage } from "./api-client"
+
+// A forwarded email the webhook received; failed ones can be reprocessed from the settings
+export type InboundEvent = {
+  id: string
+  subject: string
+  status: "received" | "parsed" | "created" | "failed"
+  error: string | null
+  attempts: number
+  receivedAt: string
+}
+
+export async function fetchFailedInboundEvents(): Promise<InboundEvent[]> {
+  try {
+    const response = await fetch("/api/inbound-events", { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load failed deliveries"))
+    }
+    const data = await response.json()
+    return data.events || []
+  } catch (error) {
+    console.error("Error fetching inbound events:", error)
+    throw error
+  }
+}
+
+/** Run a failed email through the parser again. Resolves to the ids of the shows it created. */
+export async function reprocessInboundEvent(id: string): Promise<string[]> {
+  try {
+    const response = await fetch("/api/inbound-events/reprocess", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ id }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to reprocess email"))
+    }
+
+    const data = await response.json()
+    return data.createdIds || []
+  } catch (error) {
+    console.error("Error reprocessing inbound event:", error)
+    throw error
+  }
+}
@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Resend } from "resend"
+import type { Database } from "./database.types"
+import { resolveInboundRoute } from "./inbound-routing"
+import { fetchReceivedEmail, processInboundEmail, type InboundEmailOutcome, type ReceivedEmail } from "./inbound-processing"
+import type { InboundEvent } from "./inbound-events-api"
+
+/**
+ * Delivery log of the inbound webhook. Every Resend event is recorded under its svix-id before it is
+ * processed: a redelivery of an event that was already handled is acknowledged without running it
+ * again, and failed events keep their error so they can be reprocessed later. Reprocessing an event
+ * that failed halfway is safe: the shows it already created are merged rather than duplicated, events
+ * it already held for review keep their one row, and shows it already moved are found by their old date.
+ */
+
+export type InboundEventRow = Database["public"]["Tables"]["inbound_events"]["Row"]
+
+// The part of the email.received payload needed to process the event again
+export type InboundEventPayload = { email_id: string; from?: string; to?: string[]; subject?: string }
+
+export type InboundClaim = { claimed: InboundEventRow } | { duplicate: InboundEventRow; inProgress: boolean }
+
+export type InboundEventOutcome =
+  | { status: "failed"; error: string }
+  | { status: "parsed"; rejected: string }
+  | ({ status: "parsed" | "created" } & InboundEmailOutcome)
+
+// An event still "received" after this long was interrupted (timeout, crash) and may run again
+const STALE_AFTER_MS = 10 * 60 * 1000
+
+export function inboundEventFromRow(row: InboundEventRow): InboundEvent {
+  return {
+    id: row.id,
+    subject: row.subject,
+    status: row.status,
+    error: row.error,
+    attempts: row.attempts,
+    receivedAt: row.created_at,
+  }
+}
+
+/**
+ * Record a webhook delivery. Resolves to the event to process, or to the existing event when this
+ * is a redelivery of one that was processed or is being processed right now. Failed and
+ * interrupted events are claimed again.
+ */
+export async function claimInboundEvent(
+  client: SupabaseClient<Database>,
+  event: { svixId: string; payload: InboundEventPayload }
+): Promise<InboundClaim> {
+  const insertData: Database["public"]["Tables"]["inbound_events"]["Insert"] = {
+    svix_id: event.svixId,
+    email_id: event.payload.email_id,
+    subject: event.payload.subject ?? "",
+    payload: event.payload,
+  }
+
+  const { data, error } = await client
+    .from("inbound_events")
+    .insert(insertData as any)
+    .select()
+    .single()
+
+  if (!error) return { claimed: data as InboundEventRow }
+  if (error.code !== "23505") throw new Error(`Failed to record inbound event: ${error.message}`)
+
+  const { data: existing, error: lookupError } = await client
+    .from("inbound_events")
+    .select("*")
+    .eq("svix_id", event.svixId)
+    .single()
+
+  if (lookupError) throw new Error(`Failed to load inbound event: ${lookupError.message}`)
+
+  const row = existing as InboundEventRow
+  const stale = row.status === "received" && Date.now() - new Date(row.updated_at).getTime() > STALE_AFTER_MS
+  if (row.status === "failed" || stale) {
+    const retried = await retryInboundEvent(client, row)
+    if (retried) return { claimed: retried }
+  }
+  return { duplicate: row, inProgress: row.status === "received" }
+}
+
+/**
+ * Mark an event as received again and count the attempt. Resolves to null when another delivery
+ * or reprocess claimed it first.
+ */
+export async function retryInboundEvent(client: SupabaseClient<Database>, row: InboundEventRow): Promise<InboundEventRow | null> {
+  const { data, error } = await client
+    .from("inbound_events")
+    // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+    .update({ status: "received", error: null, attempts: row.attempts + 1, updated_at: new Date().toISOString() })
+    .eq("id", row.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select()
+
+  if (error) throw new Error(`Failed to retry inbound event: ${error.message}`)
+  return ((data as InboundEventRow[]) || [])[0] ?? null
+}
+
+// Failed events without an account looked at per listing
+const UNROUTED_BATCH_SIZE = 50
+
+/**
+ * Give failed events that never reached an account (routing itself failed, e.g. on a database
+ * error) to the account their addresses resolve to now, so that account sees them in its list and
+ * can reprocess them. Needs the service client: unrouted events are invisible under RLS. Events
+ * whose payload has no addresses, or that would now be rejected, stay unrouted. Resolves to the
+ * number of events assigned.
+ */
+export async function assignUnroutedEvents(client: SupabaseClient<Database>): Promise<number> {
+  const { data, error } = await client
+    .from("inbound_events")
+    .select("*")
+    .is("user_id", null)
+    .eq("status", "failed")
+    .order("created_at", { ascending: false })
+    .limit(UNROUTED_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load unrouted inbound events: ${error.message}`)
+
+  let assigned = 0
+  for (const row of (data as InboundEventRow[]) || []) {
+    const payload = row.payload as InboundEventPayload
+    if (!payload.from || !payload.to) continue
+    const route = await resolveInboundRoute(client, { from: payload.from, to: payload.to })
+    if ("rejected" in route) continue
+
+    const { error: updateError } = await client
+      .from("inbound_events")
+      // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+      .update({ user_id: route.userId })
+      .eq("id", row.id)
+      .is("user_id", null)
+
+    if (updateError) throw new Error(`Failed to assign inbound event: ${updateError.message}`)
+    assigned++
+  }
+  return assigned
+}
+
+/** Route, fetch and process a claimed event, and record its status. Processing errors are recorded, not thrown. */
+export async function runInboundEvent(
+  client: SupabaseClient<Database>,
+  resend: Resend,
+  event: InboundEventRow
+): Promise<InboundEventOutcome> {
+  const payload = event.payload as InboundEventPayload
+  let userId = event.user_id
+  let email: ReceivedEmail | null = null
+  let outcome: InboundEventOutcome
+
+  try {
+    // Route on the payload's addresses when it has them, so a failed fetch still shows up in the right account
+    const addresses =
+      payload.from && payload.to ? { from: payload.from, to: payload.to } : (email = await fetchReceivedEmail(resend, event.email_id))
+    const route = userId ? { userId } : await resolveInboundRoute(client, { from: addresses.from, to: addresses.to })
+    if ("rejected" in route) {
+      console.warn("Inbound: rejected", { from: addresses.from, to: addresses.to, reason: route.rejected })
+      outcome = { status: "parsed", rejected: route.rejected }
+    } else {
+      userId = route.userId
+      email ??= await fetchReceivedEmail(resend, event.email_id)
+      const result = await processInboundEmail(client, resend, { emailId: event.email_id, userId, email })
+      outcome = { status: result.createdIds.length > 0 ? "created" : "parsed", ...result }
+    }
+  } catch (error) {
+    console.error("Inbound: processing failed", { id: event.id, svixId: event.svix_id, error })
+    outcome = { status: "failed", error: error instanceof Error ? error.message : "Internal error" }
+  }
+
+  const { status, ...result } = outcome
+  const { error: updateError } = await client
+    .from("inbound_events")
+    // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+    .update({
+      status,
+      user_id: userId,
+      subject: email?.subject ?? event.subject,
+      error: "error" in result ? result.error : null,
+      result: "error" in result ? null : result,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", event.id)
+
+  if (updateError) throw new Error(`Failed to record inbound event status: ${updateError.message}`)
+  return outcome
+}
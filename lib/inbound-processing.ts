@@ -0,0 +1,195 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { GetReceivingEmailResponseSuccess, Resend } from "resend"
+import type { Database } from "./database.types"
+import { parseEventFieldsFromEmail, type EmailShowFields, type ScoredField } from "./parse-show-from-email"
+import type { EmailKind } from "./email-notices"
+import { stripHtml } from "./email-parsing"
+import { findDuplicateShow, findNoticedShow, mergeInboundShow, noticeUpdate } from "./inbound-dedupe"
+import { decideInboundAction, holdForReview } from "./pending-emails"
+import { parsedShowToInsert } from "./shows-db"
+import { storeTicketAttachments } from "./show-attachments"
+
+/**
+ * Turn a received email into shows: parse it, then create, merge, update or hold one show per event
+ * and store its ticket attachments. Called by the inbound webhook and when a failed delivery is
+ * reprocessed (see lib/inbound-events.ts). Database failures throw.
+ */
+
+type DbRow = Database["public"]["Tables"]["shows"]["Row"]
+
+export type ReceivedEmail = GetReceivingEmailResponseSuccess
+
+type InboundEmail = { emailId: string; userId: string; subject: string; sender: string; body: string }
+
+export type InboundShowSummary = { id: string; show: string; date: string; city: string; venue: string }
+
+export type InboundResult =
+  | { created: false; pending: true; pendingId: string; reason: string }
+  | { created: false; merged: true; mergedFields: string[]; show: InboundShowSummary }
+  | { created: false; updated: true; kind: EmailKind; updatedFields: string[]; show: InboundShowSummary }
+  | { created: true; uncertainFields: ScoredField[]; show: InboundShowSummary }
+
+export type InboundEmailOutcome = { createdIds: string[]; attachments: number; results: InboundResult[] }
+
+/** Fetch the content of a received email from Resend. The webhook payload only has the headers. */
+export async function fetchReceivedEmail(resend: Resend, emailId: string): Promise<ReceivedEmail> {
+  const { data: email, error } = await resend.emails.receiving.get(emailId)
+  if (error || !email) {
+    console.error("Resend get email failed:", error)
+    throw new Error(`Failed to fetch email content${error ? `: ${error.message}` : ""}`)
+  }
+  return email
+}
+
+/** Create, merge, update or hold a show for every event in the email, in the given account. */
+export async function processInboundEmail(
+  supabase: SupabaseClient<Database>,
+  resend: Resend,
+  { emailId, userId, email }: { emailId: string; userId: string; email: ReceivedEmail }
+): Promise<InboundEmailOutcome> {
+  const subject = email.subject ?? ""
+  const body = email.text ?? email.html ?? ""
+  const events = parseEventFieldsFromEmail(subject, body, email.from)
+  const inbound: InboundEmail = {
+    emailId,
+    userId,
+    subject,
+    sender: email.from,
+    body: email.text ?? stripHtml(email.html ?? ""),
+  }
+
+  // Festival passes and multi-show orders: one show per event
+  const results: InboundResult[] = []
+  for (const [index, fields] of events.entries()) {
+    results.push(await processEvent(supabase, inbound, fields, index))
+  }
+
+  // PDF tickets and Wallet passes go with the shows this email bought, not the ones it cancelled or moved
+  const ticketShowIds = results.flatMap((result) => (result.created || "merged" in result ? [result.show.id] : []))
+  const attachments = await storeTicketAttachments(supabase, resend, { emailId, userId, showIds: ticketShowIds })
+
+  const createdIds = results.flatMap((result) => (result.created ? [result.show.id] : []))
+  return { createdIds, attachments, results }
+}
+
+function showSummary(row: DbRow): InboundShowSummary {
+  return { id: row.id, show: row.show, date: row.date, city: row.city, venue: row.venue }
+}
+
+// Hold the event for review, merge it into an existing show, or create a new show
+async function processEvent(
+  supabase: SupabaseClient<Database>,
+  inbound: InboundEmail,
+  fields: EmailShowFields,
+  index: number
+): Promise<InboundResult> {
+  if (fields.kind !== "purchase") return applyNotice(supabase, inbound, fields, fields.kind, index)
+
+  const decision = decideInboundAction(fields)
+  if (decision.action === "hold") {
+    const pendingId = await holdForReview(supabase, { ...inbound, itemIndex: index, parsed: fields, reason: decision.reason })
+    console.warn("Inbound: held for review", { pendingId, subject: inbound.subject, reason: decision.reason })
+    return { created: false, pending: true, pendingId, reason: decision.reason }
+  }
+
+  const parsed = { ...fields, date: fields.date! }
+  const uncertainFields = decision.action === "flag" ? decision.uncertainFields : []
+  const insertData = { ...parsedShowToInsert(parsed, inbound.userId), uncertain_fields: uncertainFields }
+
+  // Same order forwarded twice (or order + e-ticket email): merge into the existing show
+  const { data: sameDay, error: lookupError } = await supabase
+    .from("shows")
+    .select("*")
+    .eq("user_id", inbound.userId)
+    .eq("date", parsed.date)
+    .is("deleted_at", null)
+
+  if (lookupError) {
+    console.error("Supabase lookup error:", lookupError)
+    throw new Error(`Failed to check for duplicates: ${lookupError.message}`)
+  }
+
+  const duplicate = findDuplicateShow((sameDay as DbRow[]) || [], insertData)
+  if (duplicate) {
+    const updateData = mergeInboundShow(duplicate, insertData)
+    const mergedFields = Object.keys(updateData)
+    if (mergedFields.length > 0) {
+      const { error: updateError } = await supabase
+        .from("shows")
+        // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+        .update(updateData)
+        .eq("id", duplicate.id)
+
+      if (updateError) {
+        console.error("Supabase update error:", updateError)
+        throw new Error(`Failed to merge into existing show: ${updateError.message}`)
+      }
+    }
+
+    const merged = { ...duplicate, ...updateData } as DbRow
+    console.info("Inbound: merged into existing show", { id: merged.id, show: merged.show, mergedFields })
+    return { created: false, merged: true, mergedFields, show: showSummary(merged) }
+  }
+
+  const { data: row, error: insertError } = await supabase
+    .from("shows")
+    .insert(insertData as any)
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error("Supabase insert error:", insertError)
+    throw new Error(`Failed to create show: ${insertError.message}`)
+  }
+
+  const show = row as DbRow
+  console.info("Inbound: show created", { id: show.id, show: show.show, date: show.date })
+  return { created: true, uncertainFields, show: showSummary(show) }
+}
+
+// Cancellation, postponement or refund: update the show it is about, or hold it when there is none
+async function applyNotice(
+  supabase: SupabaseClient<Database>,
+  inbound: InboundEmail,
+  fields: EmailShowFields,
+  kind: Exclude<EmailKind, "purchase">,
+  index: number
+): Promise<InboundResult> {
+  let query = supabase.from("shows").select("*").eq("user_id", inbound.userId).is("deleted_at", null)
+  // A show this postponement already moved is found by its previous date, so processing the email
+  // again updates it instead of holding the email
+  query = fields.date
+    ? query.or(`date.eq.${fields.date},previous_dates.cs.{${fields.date}}`)
+    : query.gte("date", new Date().toISOString().slice(0, 10))
+  const { data: candidates, error: lookupError } = await query
+
+  if (lookupError) {
+    console.error("Supabase lookup error:", lookupError)
+    throw new Error(`Failed to look up the show for this ${kind}: ${lookupError.message}`)
+  }
+
+  const existing = findNoticedShow((candidates as DbRow[]) || [], fields)
+  if (!existing) {
+    const reason = `No matching show for this ${kind} email`
+    const pendingId = await holdForReview(supabase, { ...inbound, itemIndex: index, parsed: fields, reason })
+    console.warn("Inbound: held for review", { pendingId, subject: inbound.subject, reason })
+    return { created: false, pending: true, pendingId, reason }
+  }
+
+  const updateData = noticeUpdate(existing, kind, fields.newDate)
+  const { error: updateError } = await supabase
+    .from("shows")
+    // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+    .update(updateData)
+    .eq("id", existing.id)
+
+  if (updateError) {
+    console.error("Supabase update error:", updateError)
+    throw new Error(`Failed to update show: ${updateError.message}`)
+  }
+
+  const updated = { ...existing, ...updateData } as DbRow
+  const updatedFields = Object.keys(updateData)
+  console.info("Inbound: show updated", { id: updated.id, show: updated.show, kind, updatedFields })
+  return { created: false, updated: true, kind, updatedFields, show: showSummary(updated) }
+}
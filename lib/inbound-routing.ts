@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "./database.types"
+
+/**
+ * Resolve which account a forwarded email belongs to.
+ *
+ * 1. A recipient with a known inbound alias (shows+<alias>@domain, or <alias>@domain) picks the
+ *    account; the sender must then be on that account's allow-list.
+ * 2. Mail to the shared address is matched by sender: it must be allow-listed by exactly one account.
+ */
+
+export type InboundRoute = { userId: string } | { rejected: string }
+
+const inboundAddress = process.env.INBOUND_EMAIL_ADDRESS
+
+/** "Jane Doe <Jane@Example.com>" -> "jane@example.com" */
+export function extractEmailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim().toLowerCase()
+}
+
+// Possible aliases in a recipient: the +tag, and the whole local part for catch-all domains
+function getAliasCandidates(recipient: string): string[] {
+  const localPart = extractEmailAddress(recipient).split("@")[0] ?? ""
+  const plusIndex = localPart.indexOf("+")
+  return plusIndex >= 0 ? [localPart.slice(plusIndex + 1)] : [localPart]
+}
+
+/** Personal forwarding address for an alias, or null when INBOUND_EMAIL_ADDRESS is not configured. */
+export function getInboundAddress(alias: string): string | null {
+  if (!inboundAddress) return null
+  const [localPart, domain] = inboundAddress.split("@")
+  return localPart && domain ? `${localPart}+${alias}@${domain}` : null
+}
+
+export async function resolveInboundRoute(
+  supabase: SupabaseClient<Database>,
+  email: { from: string; to: string[] }
+): Promise<InboundRoute> {
+  const sender = extractEmailAddress(email.from)
+  const aliases = Array.from(new Set(email.to.flatMap(getAliasCandidates))).filter(Boolean)
+
+  if (aliases.length > 0) {
+    const { data: profiles, error } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .in("inbound_alias", aliases)
+    if (error) throw new Error(`Failed to look up inbound address: ${error.message}`)
+
+    const profile = (profiles as { user_id: string }[] | null)?.[0]
+    if (profile) {
+      const { data: allowed, error: senderError } = await supabase
+        .from("inbound_senders")
+        .select("id")
+        .eq("user_id", profile.user_id)
+        .eq("email", sender)
+        .limit(1)
+      if (senderError) throw new Error(`Failed to check sender: ${senderError.message}`)
+
+      return allowed && allowed.length > 0
+        ? { userId: profile.user_id }
+        : { rejected: `Sender ${sender} is not allowed to forward to this address` }
+    }
+  }
+
+  const { data: senders, error } = await supabase.from("inbound_senders").select("user_id").eq("email", sender)
+  if (error) throw new Error(`Failed to look up sender: ${error.message}`)
+
+  const userIds = Array.from(new Set(((senders as { user_id: string }[]) || []).map((row) => row.user_id)))
+  if (userIds.length === 1) return { userId: userIds[0] }
+  if (userIds.length > 1) {
+    return { rejected: `Sender ${sender} belongs to several accounts; forward to your personal inbound address instead` }
+  }
+  return { rejected: `Unknown sender ${sender}` }
+}
@@ -1,273 +1,172 @@
 /**
  * Heuristic parser: extract show name, date, city, venue from ticket/confirmation email text.
  * Used by Resend Inbound webhook. Returns null if we can't get enough to create a show.
+ *
+ * Emails from a known ticket vendor (see email-vendors) are parsed by that vendor first; the
+ * generic label heuristics below fill in whatever the vendor parser could not extract.
  */
 
+import {
+  capitalizeCity,
+  ensureCityNotSentence,
+  extractDate,
+  extractLabel,
+  extractLabelledDate,
+  extractVenueLineStrict,
+  parseVenueLine,
+  sanitizeCityFromLabel,
+  stripForwardedHeaderDates,
+  stripHtml,
+} from "./email-parsing"
+import { detectVendor, extractForwardedSenders, type VendorEmail, type VendorParser } from "./email-vendors"
+import { extractTicketDetails, type EmailTicketDetails } from "./email-ticket-details"
+import { classifyEmail, extractNewDate, stripNoticeWords, type EmailKind } from "./email-notices"
+import { detectLocale, FIELD_LABELS } from "./email-locales"
+
 export type ParsedShow = {
   show: string
   date: string // YYYY-MM-DD
   city: string
   venue: string
+  vendor: string // detected ticket vendor, "" when unknown
+  kind: EmailKind // purchase, or a cancellation/postponement/refund notice about an existing show
+  newDate: string | null // YYYY-MM-DD, postponements only: the date the show was moved to
+  ticket: EmailTicketDetails
+  provenance: Record<ScoredField, FieldProvenance>
 }
 
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim()
-}
-
-/** Title-case city name: HAMBURG -> Hamburg, new york -> New York */
-function capitalizeCity(city: string): string {
-  return city
-    .trim()
-    .split(/\s+/)
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(" ")
-}
-
-/** Never return a sentence as city: if it looks like one, take last city-like word or Unknown. */
-function ensureCityNotSentence(value: string): string {
-  const trimmed = value.trim()
-  const parts = trimmed.split(/\s+/)
-  const looksLikeSentence =
-    parts.length > 4 ||
-    trimmed.length > 50 ||
-    /\b(you|can|so that|at any|when logged|please|click|access them|any time)\b/i.test(trimmed)
-  if (!looksLikeSentence) return trimmed
-  const words = parts.filter((w) => /^[a-zA-Z\u00C0-\u024F\-']{2,40}$/.test(w))
-  return words.length > 0 ? words[words.length - 1]! : "Unknown"
-}
-
-/** EVENTIM/order emails: get "Venue: ..." line only (avoid matching earlier "location" that can be sentence garbage). */
-function extractVenueLineStrict(text: string): string | null {
-  const m = text.match(/\bVenue\s*:\s*([^\n<]+)/i)
-  if (!m || !m[1]) return null
-  const value = m[1].trim().replace(/\s+/g, " ").slice(0, 300)
-  return value.length > 0 ? value : null
-}
-
-/** Try to parse a date string into YYYY-MM-DD */
-function parseDate(str: string): string | null {
-  if (!str || str.length > 60) return null
-  const s = str.trim()
-
-  // Already YYYY-MM-DD
-  const iso = /(\d{4})-(\d{2})-(\d{2})/.exec(s)
-  if (iso) {
-    const [, y, m, d] = iso
-    if (y && m && d) return `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`
-  }
-
-  // DD.MM.YYYY (Eventim / EU)
-  const dot = /(\d{1,2})\.(\d{1,2})\.(\d{4})/.exec(s)
-  if (dot) {
-    const [, d, m, y] = dot
-    if (d && m && y) return `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`
-  }
+// The extracted values alone, e.g. after a user corrected them in the review inbox
+export type ParsedShowFields = Omit<ParsedShow, "provenance" | "ticket" | "kind" | "newDate"> & { ticket?: EmailTicketDetails }
 
-  // DD/MM/YYYY or MM/DD/YYYY (prefer DD/MM when day > 12)
-  const slash = /(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(s)
-  if (slash) {
-    const [, a, b, year] = slash
-    let month: string
-    let day: string
-    const an = parseInt(a!, 10)
-    const bn = parseInt(b!, 10)
-    if (an > 12) {
-      day = a!.padStart(2, "0")
-      month = b!.padStart(2, "0")
-    } else if (bn > 12) {
-      month = a!.padStart(2, "0")
-      day = b!.padStart(2, "0")
-    } else {
-      month = a!.padStart(2, "0")
-      day = b!.padStart(2, "0")
-    }
-    return `${year}-${month}-${day}`
-  }
+export type ScoredField = "show" | "date" | "city" | "venue"
 
-  // Month DD, YYYY or DD Month YYYY
-  const months =
-    "january|february|march|april|may|june|july|august|september|october|november|december"
-  const monthNames = months.split("|")
-  const monthNum = (m: string) => String(monthNames.indexOf(m.toLowerCase()) + 1).padStart(2, "0")
-  for (const monthName of monthNames) {
-    const re1 = new RegExp(`${monthName}\\s+(\\d{1,2}),?\\s+(\\d{4})`, "i")
-    const m1 = re1.exec(s)
-    if (m1) {
-      return `${m1[2]}-${monthNum(monthName)}-${m1[1].padStart(2, "0")}`
-    }
-    const re2 = new RegExp(`(\\d{1,2})\\s+${monthName}\\s+(\\d{4})`, "i")
-    const m2 = re2.exec(s)
-    if (m2) {
-      return `${m2[2]}-${monthNum(monthName)}-${m2[1].padStart(2, "0")}`
-    }
-  }
+// Which rule produced a field: a vendor-specific parser, the "Venue:" line, another label
+// ("Event:", "City:", "When:"), a bare date anywhere in the text, the subject line, or the default
+export type FieldRule = "vendor" | "venue-line" | "label" | "date-pattern" | "subject" | "default"
 
-  return null
+export type FieldProvenance = {
+  rule: FieldRule
+  confidence: number // 0-1
 }
 
-function isReasonableEventYear(parsedDate: string): boolean {
-  const y = parseInt(parsedDate.slice(0, 4), 10)
-  const currentYear = new Date().getFullYear()
-  return y >= currentYear - 1 && y <= currentYear + 2
+const RULE_CONFIDENCE: Record<FieldRule, number> = {
+  vendor: 0.9,
+  "venue-line": 0.9,
+  label: 0.7,
+  "date-pattern": 0.5,
+  subject: 0.3,
+  default: 0,
 }
 
-/** Find first date in text that looks like an event date (year >= current - 1) */
-function extractDate(text: string): string | null {
-  // EVENTIM/order emails: prefer "Date: Wed, 11.03.2026" (event) over "Order date: 18.02.2026" (order)
-  // Match line that starts with "Date:" or "Datum:" (event date), not "Order date"
-  const eventDateLabel = text.match(/(?:^|\n)\s*(?:Date|Datum)\s*:\s*([^\n]+)/im)
-  if (eventDateLabel && eventDateLabel[1]) {
-    const parsed = parseDate(eventDateLabel[1])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
+// Below this a field is treated as uncertain: flagged on the show and highlighted for review
+export const CONFIDENCE_THRESHOLD = 0.7
 
-  // Other date labels (when, event date, show date, etc.)
-  const labelMatch = text.match(
-    /(?:when|event date|show date|concert date|veranstaltungsdatum)[\s:]+([^\n]+)/i
-  )
-  if (labelMatch && labelMatch[1]) {
-    const parsed = parseDate(labelMatch[1])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
+function provenance(rule: FieldRule, salvaged = false): FieldProvenance {
+  // A value picked out of sentence garbage (see ensureCityNotSentence) is half as trustworthy
+  return { rule, confidence: salvaged ? RULE_CONFIDENCE[rule] / 2 : RULE_CONFIDENCE[rule] }
+}
 
-  // Standalone date patterns (DD.MM.YYYY first for Eventim)
-  const dotMatch = text.match(/\d{1,2}\.\d{1,2}\.\d{4}/)
-  if (dotMatch) {
-    const parsed = parseDate(dotMatch[0])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
+// Whatever could be extracted, even when the email is not good enough to create a show from
+export type EmailShowFields = Omit<ParsedShow, "date"> & { date: string | null }
 
-  const isoMatch = text.match(/\d{4}-\d{2}-\d{2}/)
-  if (isoMatch) {
-    const parsed = parseDate(isoMatch[0])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
-
-  const slashMatch = text.match(/\d{1,2}\/\d{1,2}\/\d{4}/)
-  if (slashMatch) {
-    const parsed = parseDate(slashMatch[0])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
-
-  const monthMatch = text.match(
-    /(?:january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2},?\s+\d{4}/i
-  )
-  if (monthMatch) {
-    const parsed = parseDate(monthMatch[0])
-    if (parsed && isReasonableEventYear(parsed)) return parsed
-  }
+/**
+ * Parse email subject + body (plain text or HTML) and return show/date/city/venue if possible.
+ * `from` is the envelope sender; forwarded "From:" lines in the body are checked as well.
+ */
+export function parseShowFromEmail(subject: string, body: string, from = ""): ParsedShow | null {
+  const fields = parseShowFieldsFromEmail(subject, body, from)
+  // Require at least show name and date; city/venue we can default
+  if (!fields.show || !fields.date) return null
+  return { ...fields, date: fields.date }
+}
 
-  return null
+/** Best-effort extraction used for the review inbox when parseShowFromEmail gives up. */
+export function parseShowFieldsFromEmail(subject: string, body: string, from = ""): EmailShowFields {
+  const text = toPlainText(body)
+  const senders = [from, ...extractForwardedSenders(body)].filter(Boolean)
+  return parseFields({ subject, text, senders }, detectVendor({ subject, text, senders }))
 }
 
-function extractLabel(text: string, labels: string[]): string | null {
-  for (const label of labels) {
-    const re = new RegExp(`${label.replace(/\s+/g, "\\s+")}[\\s:]+([^\\n<]+)`, "i")
-    const m = re.exec(text)
-    if (m && m[1]) {
-      const value = m[1].trim().replace(/\s+/g, " ").slice(0, 200)
-      if (value.length > 0) return value
-    }
+/**
+ * Festival passes and multi-show orders list several events in one email. Each event starts with
+ * an "Event:" style label or an Eventim "Artist, City, DD.MM.YYYY" line and is parsed on its own;
+ * order number and ticket location are shared. Ordinary emails give a single entry.
+ */
+export function parseEventFieldsFromEmail(subject: string, body: string, from = ""): EmailShowFields[] {
+  const whole = parseShowFieldsFromEmail(subject, body, from)
+  const text = toPlainText(body)
+  const sections = splitEventSections(text)
+  if (sections.length < 2) return [whole]
+
+  const senders = [from, ...extractForwardedSenders(body)].filter(Boolean)
+  const vendor = detectVendor({ subject, text, senders })
+  const events: EmailShowFields[] = []
+  const seen = new Set<string>()
+  for (const section of sections) {
+    // Without the subject, so a vendor's subject-line show name does not end up on every event
+    const fields = parseFields({ subject: "", text: section.replace(ORDER_TOTAL_LINE, ""), senders }, vendor)
+    const key = `${fields.show.toLowerCase()}|${fields.date}`
+    if (!fields.date || seen.has(key)) continue
+    seen.add(key)
+    events.push({
+      ...fields,
+      // A festival cancellation applies to every day listed
+      kind: whole.kind,
+      ticket: {
+        ...fields.ticket,
+        orderNumber: fields.ticket.orderNumber ?? whole.ticket.orderNumber,
+        location: fields.ticket.location ?? whole.ticket.location,
+      },
+    })
   }
-  return null
+  // The same event described twice (label and Eventim line) is still a single event
+  return events.length >= 2 ? events : [whole]
 }
 
-/** Extract show name from EVENTIM subject: "Your EVENTIM order: Artist - order number 123" */
-function extractEventimShowFromSubject(subject: string): string | null {
-  const m = subject.match(/\bEVENTIM\s+order\s*:\s*(.+?)\s*-\s*order\s+number\s+\d+/i)
-  return m ? m[1].trim().slice(0, 200) : null
+/** Every event in the email that has at least a show name and date. */
+export function parseShowsFromEmail(subject: string, body: string, from = ""): ParsedShow[] {
+  return parseEventFieldsFromEmail(subject, body, from)
+    .filter((fields): fields is ParsedShow => Boolean(fields.show && fields.date))
 }
 
-/** EVENTIM body line: "Artist, City, DD.MM.YYYY" (e.g. Psychedelic Porn Crumpets, Berlin, 11.03.2026) */
-function extractEventimArtistCityDate(text: string): {
-  show: string
-  city: string
-  date: string | null
-} | null {
-  // Try full-line match first (plain text), then inline (stripped HTML)
-  const m =
-    text.match(/^([^,\n]+),\s*([^,\n]+),\s*(\d{1,2}\.\d{1,2}\.\d{4})\s*$/m) ??
-    text.match(/([^,\n]+),\s*([^,\n]+),\s*(\d{1,2}\.\d{1,2}\.\d{4})\b/)
-  if (!m || !m[1] || !m[2] || !m[3]) return null
-  const [, show, city, dateStr] = m
-  const parsed = parseDate(dateStr)
-  if (!parsed || !isReasonableEventYear(parsed)) return null
-  return { show: show.trim().slice(0, 200), city: city.trim(), date: parsed }
+// Only strip real markup: forwarded plain-text emails contain "<address>" in their From: lines
+function toPlainText(body: string): string {
+  const text = /<\/?(?:html|body|div|p|br|table|tr|td|span|a)\b/i.test(body) ? stripHtml(body) : body
+  return stripForwardedHeaderDates(text)
 }
 
-/** Extract city from "PostalCode City" in venue text (e.g. "10999 Berlin" -> "Berlin"). */
-function extractCityFromVenueLine(venueLine: string): string | null {
-  // Match 4–5 digit area/postal code followed by city name (one or two words, letters)
-  const m = venueLine.match(/\d{4,5}\s+([A-Za-z\u00C0-\u024F\-']+(?:\s+[A-Za-z\u00C0-\u024F\-']+)?)/)
-  if (!m || !m[1]) return null
-  const city = m[1].trim()
-  return city.length >= 2 && city.length <= 50 ? city : null
-}
+const EVENT_START = /^\s*(?:(?:event|veranstaltung|concert|konzert|performance)\s*:|[^,\n]+,\s*[^,\n]+,\s*\d{1,2}\.\d{1,2}\.\d{4}\s*$)/i
 
-/** From one Venue sentence: first part = venue name (e.g. SO36), last part = city (e.g. Berlin from "10999 Berlin"). */
-function parseVenueLine(venueLine: string): { venueName: string; cityFromVenue: string | null } {
-  const trimmed = venueLine.trim()
-  if (!trimmed) return { venueName: "Unknown", cityFromVenue: null }
-  const parts = trimmed.split(",").map((p) => p.trim()).filter(Boolean)
-  const venueName = parts[0] ?? trimmed
-  // City = last part of sentence (e.g. "10999 Berlin" -> "Berlin"); match postal+city pattern in whole line
-  const cityFromVenue =
-    extractCityFromVenueLine(trimmed) ??
-    (() => {
-      const last = parts[parts.length - 1]
-      if (last && parts.length > 1 && /^\d{4,5}\s+.+$/.test(last))
-        return last.replace(/^\d{4,5}\s+/, "").trim()
-      return parts.length > 1 ? (last ?? null) : null
-    })()
-  return {
-    venueName: venueName.replace(/\s+/g, "").toUpperCase() === "SO36" ? "SO36" : venueName,
-    cityFromVenue: cityFromVenue && cityFromVenue.length <= 50 ? cityFromVenue : null,
-  }
-}
+// The order total usually follows the last event; it is not that event's price
+const ORDER_TOTAL_LINE = /^.*\b(?:total|gesamt(?:betrag|summe)?|summe|amount paid)\b.*$/gim
 
-/** Reject sentence-like label value; use as-is if city-like, else take last word that looks like a city name. */
-function sanitizeCityFromLabel(value: string): string | null {
-  const trimmed = value.trim()
-  if (!trimmed || trimmed.length > 200) return null
-  const looksLikeSentence = /[?*]|https?:\/\/|\b(you|can|so that|at any|when logged|please|click)\b/i.test(trimmed)
-  // If short and city-like (no sentence), use as-is
-  if (!looksLikeSentence && trimmed.length <= 50 && /^[a-zA-Z\u00C0-\u024F\s\-'.]+$/.test(trimmed) && trimmed.split(/\s+/).length <= 3)
-    return trimmed
-  // Otherwise take last token that looks like a city (letters only, 2–40 chars), e.g. "... Berlin" -> "Berlin"
-  const words = trimmed.split(/\s+/).filter((w) => /^[a-zA-Z\u00C0-\u024F\-']{2,40}$/.test(w))
-  return words.length > 0 ? words[words.length - 1]! : null
+// Text from each event start to the next; the order header before the first event is dropped
+function splitEventSections(text: string): string[] {
+  const lines = text.split("\n")
+  const starts = lines.flatMap((line, index) => (EVENT_START.test(line) ? [index] : []))
+  if (starts.length < 2) return [text]
+  return starts.map((start, i) => lines.slice(start, starts[i + 1] ?? lines.length).join("\n"))
 }
 
-/**
- * Parse email subject + body (plain text or HTML) and return show/date/city/venue if possible.
- */
-export function parseShowFromEmail(subject: string, body: string): ParsedShow | null {
-  const text = body.includes("<") ? stripHtml(body) : body
+function parseFields(email: VendorEmail, vendor: VendorParser | null): EmailShowFields {
+  const kind = classifyEmail(email.subject, email.text)
+  // Language and date order of the original sender
+  const locale = email.locale ?? detectLocale(email)
+  // A postponement's own date identifies the show; the date it moved to is reported separately
+  const rescheduled = kind === "postponement" ? extractNewDate(email.text, locale) : null
+  const { subject, text } = rescheduled ? { ...email, text: email.text.replace(rescheduled.match, "") } : email
   const combined = `${subject}\n${text}`
+  const vendorFields = vendor ? vendor.parse({ ...email, text, locale }) : {}
 
-  // EVENTIM: parse early so we can prefer event date/city from "Artist, City, DD.MM.YYYY" line
-  const eventimFromSubject = extractEventimShowFromSubject(subject)
-  const eventimFromBody = extractEventimArtistCityDate(text)
+  const labelledDate = vendorFields.date ? null : extractLabelledDate(combined, locale)
+  const date = vendorFields.date || labelledDate || extractDate(combined, locale)
+  const dateRule: FieldRule = vendorFields.date ? "vendor" : labelledDate ? "label" : date ? "date-pattern" : "default"
 
-  const date =
-    (eventimFromBody ? eventimFromBody.date : null) || extractDate(combined)
   // Prefer strict "Venue:" line first (EVENTIM) so we don't use an earlier "location" match that can be sentence garbage
   const venueLineStrict = extractVenueLineStrict(combined)
-  const venueRaw =
-    venueLineStrict ??
-    extractLabel(combined, [
-      "venue",
-      "location",
-      "where",
-      "place",
-      "at venue",
-      "ort",
-      "veranstaltungsort",
-      "theatre",
-      "theater",
-      "arena",
-      "hall",
-    ])
+  const venueLabel = venueLineStrict || vendorFields.venue ? null : extractLabel(combined, FIELD_LABELS.venue)
+  const venueRaw = venueLineStrict ?? vendorFields.venue ?? venueLabel
+  const venueRule: FieldRule = venueLineStrict ? "venue-line" : vendorFields.venue ? "vendor" : venueLabel ? "label" : "default"
   // Trim at "Promoter:" when present. Both venue and city come from this same Venue line: first part = venue (e.g. SO36), last part = city (e.g. Berlin).
   const venueLine =
     venueRaw && venueRaw.split(/\s+Promoter\s*:/i)[0].trim()
@@ -275,39 +174,35 @@ export function parseShowFromEmail(subject: string, body: string): ParsedShow |
 
   // City: from the same Venue sentence (last part, e.g. "10999 Berlin" -> "Berlin"). Only use other sources when there is no Venue line.
   const cityFromLabel =
-    extractLabel(combined, ["city", "stadt", "location"]) ||
+    extractLabel(combined, FIELD_LABELS.city) ||
     extractLabel(combined, ["ort"])
-  const cityFinal = ensureCityNotSentence(
-    cityFromVenue ??
-    (eventimFromBody ? eventimFromBody.city : null) ??
-    (cityFromLabel ? sanitizeCityFromLabel(cityFromLabel) : null) ??
-    "Unknown"
-  )
-
-  const show =
-    eventimFromSubject ||
-    (eventimFromBody ? eventimFromBody.show : null) ||
-    extractLabel(combined, [
-      "event",
-      "veranstaltung",
-      "concert",
-      "konzert",
-      "show",
-      "performance",
-      "artist",
-      "act",
-      "event name",
-      "eventtitel",
-    ]) ||
-    subject.trim().slice(0, 200)
-
-  // Require at least show name and date; city/venue we can default
-  if (!show || !date) return null
+  const sanitizedCityFromLabel = cityFromLabel ? sanitizeCityFromLabel(cityFromLabel) : null
+  const cityCandidate = cityFromVenue ?? vendorFields.city ?? sanitizedCityFromLabel
+  const cityFinal = ensureCityNotSentence(cityCandidate ?? "Unknown")
+  const cityFromLabelUsed = !cityFromVenue && !vendorFields.city && sanitizedCityFromLabel !== null
+  const cityRule: FieldRule = cityFromVenue ? venueRule : vendorFields.city ? "vendor" : cityFromLabelUsed ? "label" : "default"
+  const citySalvaged =
+    cityFinal !== cityCandidate?.trim() || (cityFromLabelUsed && sanitizedCityFromLabel !== cityFromLabel?.trim())
+
+  const showLabel = vendorFields.show ? null : extractLabel(combined, FIELD_LABELS.show)
+  const subjectShow = kind === "purchase" ? subject.trim() : stripNoticeWords(subject)
+  const show = vendorFields.show || showLabel || subjectShow.slice(0, 200)
+  const showRule: FieldRule = vendorFields.show ? "vendor" : showLabel ? "label" : "subject"
 
   return {
     show: show.trim(),
-    date,
+    date: date || null,
     city: capitalizeCity(cityFinal),
     venue: venueFinal,
+    vendor: vendor?.name ?? "",
+    kind,
+    newDate: rescheduled?.date ?? null,
+    ticket: extractTicketDetails(combined),
+    provenance: {
+      show: provenance(showRule),
+      date: provenance(dateRule),
+      city: provenance(cityFinal === "Unknown" ? "default" : cityRule, citySalvaged),
+      venue: provenance(venueFinal === "Unknown" ? "default" : venueRule),
+    },
   }
 }
@@ -0,0 +1,75 @@
+import type { Show } from "./shows"
+import type { EmailShowFields, ParsedShowFields } from "./parse-show-from-email"
+import { getAuthHeaders, getErrorMessage } from "./api-client"
+
+// The fields a user can correct before turning a pending email into a show
+export type PendingEmailFields = Pick<ParsedShowFields, "show" | "date" | "city" | "venue" | "vendor">
+
+// Forwarded email held for review because it could not be turned into a show automatically
+export type PendingEmail = {
+  id: string
+  subject: string
+  sender: string
+  body: string
+  parsed: EmailShowFields | null
+  reason: string
+  receivedAt: string
+}
+
+export async function fetchPendingEmails(): Promise<PendingEmail[]> {
+  try {
+    const response = await fetch("/api/pending-emails", { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load pending emails"))
+    }
+    const data = await response.json()
+    return data.pendingEmails || []
+  } catch (error) {
+    console.error("Error fetching pending emails:", error)
+    throw error
+  }
+}
+
+/** Create a show from the (corrected) fields of a pending email and resolve the email. */
+export async function acceptPendingEmail(id: string, show: PendingEmailFields): Promise<Show> {
+  try {
+    const response = await fetch("/api/pending-emails/accept", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ id, show }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to create show"))
+    }
+
+    const data = await response.json()
+    return data.show
+  } catch (error) {
+    console.error("Error accepting pending email:", error)
+    throw error
+  }
+}
+
+export async function dismissPendingEmail(id: string): Promise<void> {
+  try {
+    const response = await fetch("/api/pending-emails", {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ id }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to dismiss email"))
+    }
+  } catch (error) {
+    console.error("Error dismissing pending email:", error)
+    throw error
+  }
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "./database.types"
+import { CONFIDENCE_THRESHOLD, type EmailShowFields, type ScoredField } from "./parse-show-from-email"
+import type { PendingEmail } from "./pending-emails-api"
+
+/**
+ * Review inbox for forwarded emails the parser could not handle (or only partly). The webhook
+ * holds them here instead of dropping them; the dashboard turns them into shows or dismisses them.
+ */
+
+const SCORED_FIELDS: ScoredField[] = ["show", "date", "city", "venue"]
+
+export type InboundDecision =
+  | { action: "create" }
+  | { action: "flag"; uncertainFields: ScoredField[] }
+  | { action: "hold"; reason: string }
+
+/** Auto-create, create and flag the uncertain fields, or hold the email for review. */
+export function decideInboundAction(fields: EmailShowFields): InboundDecision {
+  const { provenance } = fields
+  if (!fields.date) return { action: "hold", reason: "Could not find an event date" }
+  if (provenance.venue.rule === "default" && provenance.city.rule === "default") {
+    return { action: "hold", reason: "Could not find a venue or city" }
+  }
+  // Subject line as show name plus a bare date somewhere in the text: likely not a ticket at all
+  if (provenance.show.rule === "subject" && provenance.date.confidence < CONFIDENCE_THRESHOLD) {
+    return { action: "hold", reason: "Show name and date are guesses" }
+  }
+
+  const uncertainFields = SCORED_FIELDS.filter((field) => provenance[field].confidence < CONFIDENCE_THRESHOLD)
+  return uncertainFields.length > 0 ? { action: "flag", uncertainFields } : { action: "create" }
+}
+
+export type PendingEmailRow = Database["public"]["Tables"]["pending_emails"]["Row"]
+
+// Enough of the body to correct the fields by hand; forwarded threads can be very long
+const MAX_BODY_LENGTH = 20000
+
+export function pendingEmailFromRow(row: PendingEmailRow): PendingEmail {
+  return {
+    id: row.id,
+    subject: row.subject,
+    sender: row.sender,
+    body: row.body,
+    parsed: row.parsed as EmailShowFields | null,
+    reason: row.reason,
+    receivedAt: row.created_at,
+  }
+}
+
+/**
+ * Store an event of an email for review in the given account's inbox. Resolves to the row's id; an
+ * event that was already held (the email is processed again) keeps its row.
+ */
+export async function holdForReview(
+  client: SupabaseClient<Database>,
+  email: {
+    userId: string
+    emailId: string
+    itemIndex: number // the event's position in the email
+    subject: string
+    sender: string
+    body: string
+    parsed: EmailShowFields | null
+    reason: string
+  }
+): Promise<string> {
+  const insertData: Database["public"]["Tables"]["pending_emails"]["Insert"] = {
+    user_id: email.userId,
+    email_id: email.emailId,
+    item_index: email.itemIndex,
+    subject: email.subject,
+    sender: email.sender,
+    body: email.body.slice(0, MAX_BODY_LENGTH),
+    parsed: email.parsed,
+    reason: email.reason,
+  }
+
+  const { data, error } = await client
+    .from("pending_emails")
+    .upsert(insertData as any, { onConflict: "email_id,item_index", ignoreDuplicates: true })
+    .select("id")
+
+  if (error) throw new Error(`Failed to store email for review: ${error.message}`)
+  const inserted = ((data as { id: string }[]) || [])[0]
+  if (inserted) return inserted.id
+
+  const { data: existing, error: lookupError } = await client
+    .from("pending_emails")
+    .select("id")
+    .eq("email_id", email.emailId)
+    .eq("item_index", email.itemIndex)
+    .single()
+
+  if (lookupError) throw new Error(`Failed to load email held for review: ${lookupError.message}`)
+  return (existing as { id: string }).id
+}
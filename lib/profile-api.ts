@@ -0,0 +1,89 @@
+import { getAuthHeaders, getErrorMessage } from "./api-client"
+
+export type Profile = {
+  email: string
+  calendarToken: string | null
+  // Personal forwarding address for ticket emails (null when INBOUND_EMAIL_ADDRESS is not configured)
+  inboundAddress: string | null
+}
+
+export async function fetchProfile(): Promise<Profile> {
+  try {
+    const response = await fetch("/api/profile", { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load profile"))
+    }
+    const data = await response.json()
+    return data.profile
+  } catch (error) {
+    console.error("Error fetching profile:", error)
+    throw error
+  }
+}
+
+// webcal:// link for the user's calendar feed (served by /api/calendar)
+export function getCalendarFeedUrl(calendarToken: string): string {
+  return `webcal://${window.location.host}/api/calendar?token=${encodeURIComponent(calendarToken)}`
+}
+
+export type InboundSender = {
+  id: string
+  email: string
+}
+
+export async function fetchInboundSenders(): Promise<InboundSender[]> {
+  try {
+    const response = await fetch("/api/inbound-senders", { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load senders"))
+    }
+    const data = await response.json()
+    return data.senders || []
+  } catch (error) {
+    console.error("Error fetching inbound senders:", error)
+    throw error
+  }
+}
+
+export async function addInboundSender(email: string): Promise<InboundSender> {
+  try {
+    const response = await fetch("/api/inbound-senders", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ email }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to add sender"))
+    }
+
+    const data = await response.json()
+    return data.sender
+  } catch (error) {
+    console.error("Error adding inbound sender:", error)
+    throw error
+  }
+}
+
+export async function removeInboundSender(id: string): Promise<void> {
+  try {
+    const response = await fetch("/api/inbound-senders", {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ id }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to remove sender"))
+    }
+  } catch (error) {
+    console.error("Error removing inbound sender:", error)
+    throw error
+  }
+}
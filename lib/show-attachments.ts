@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Resend } from "resend"
+import type { Database } from "./database.types"
+
+/**
+ * Ticket files attached to forwarded emails. PDF tickets and Apple Wallet passes are copied from
+ * Resend into the private "tickets" storage bucket and linked to the shows the email created or
+ * updated, so they can be downloaded from the show card at the door.
+ */
+
+export const TICKET_BUCKET = "tickets"
+
+const TICKET_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  pkpass: "application/vnd.apple.pkpass",
+}
+
+// Anything bigger is not a ticket
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+// Mail clients often send tickets as application/octet-stream; fall back to the file extension
+function ticketContentType(filename: string, contentType: string): string | null {
+  if (Object.values(TICKET_CONTENT_TYPES).includes(contentType)) return contentType
+  const extension = filename.split(".").pop()?.toLowerCase() ?? ""
+  return TICKET_CONTENT_TYPES[extension] ?? null
+}
+
+// Storage keys only allow a limited character set: "Tickets – Wet Leg.pdf" -> "Tickets-Wet-Leg.pdf"
+function storageName(filename: string): string {
+  return filename.normalize("NFD").replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "ticket"
+}
+
+/**
+ * Copy an inbound email's ticket attachments into storage and link them to the given shows.
+ * Resolves to the number of files stored. Failures are logged and skipped: the shows exist either way.
+ */
+export async function storeTicketAttachments(
+  client: SupabaseClient<Database>,
+  resend: Resend,
+  email: { emailId: string; userId: string; showIds: string[] }
+): Promise<number> {
+  if (email.showIds.length === 0) return 0
+
+  const { data: list, error: listError } = await resend.emails.receiving.attachments.list({ emailId: email.emailId })
+  if (listError || !list) {
+    console.error("Resend list attachments failed:", listError)
+    return 0
+  }
+
+  let stored = 0
+  for (const attachment of list.data) {
+    const filename = attachment.filename ?? `ticket-${attachment.id}`
+    const contentType = ticketContentType(filename, attachment.content_type)
+    if (!contentType || attachment.size > MAX_ATTACHMENT_SIZE) continue
+
+    try {
+      const response = await fetch(attachment.download_url)
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`)
+
+      const storagePath = `${email.userId}/${email.emailId}/${attachment.id}-${storageName(filename)}`
+      const { error: uploadError } = await client.storage
+        .from(TICKET_BUCKET)
+        // upsert: Resend retries deliveries, the same file may arrive twice
+        .upload(storagePath, await response.arrayBuffer(), { contentType, upsert: true })
+      if (uploadError) throw new Error(uploadError.message)
+
+      const rows: Database["public"]["Tables"]["show_attachments"]["Insert"][] = email.showIds.map((showId) => ({
+        user_id: email.userId,
+        show_id: showId,
+        filename,
+        content_type: contentType,
+        size: attachment.size,
+        storage_path: storagePath,
+      }))
+      // Reprocessing stores the same file again; shows that already have it are skipped (migration 015)
+      const { error: insertError } = await client
+        .from("show_attachments")
+        .upsert(rows as any, { onConflict: "show_id,storage_path", ignoreDuplicates: true })
+      if (insertError) throw new Error(insertError.message)
+
+      stored++
+    } catch (error) {
+      console.error("Inbound: failed to store attachment", { filename, error })
+    }
+  }
+  return stored
+}
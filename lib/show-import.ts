@@ -0,0 +1,150 @@
+import { COST_FIELDS, type CostField, type Show } from "./shows"
+
+/**
+ * Merge planning for bulk imports: matches incoming shows against existing ones
+ * by show + date + venue and works out what to insert, update or leave alone.
+ */
+
+// Fields the sheet has columns for; email-only details (order number, seat, ...) are never imported
+export type ShowField =
+  | "show"
+  | "date"
+  | "city"
+  | "venue"
+  | "ticket"
+  | "ticketVendor"
+  | "ticketLocation"
+  | "attendance"
+  | "note"
+  | CostField
+
+export type FieldChange = {
+  field: ShowField
+  before: Show[ShowField]
+  after: Show[ShowField]
+}
+
+export type ImportMode = "merge" | "replace"
+
+export type ImportSummary = {
+  mode: ImportMode
+  inserted: number
+  updated: number
+  unchanged: number
+  skipped: number
+  deleted: number
+}
+
+// Row-by-row result of a dry run, returned by PUT /api/shows with dryRun: true
+export type ImportPreview = {
+  summary: ImportSummary
+  added: Show[]
+  changed: { id: string; show: string; date: string; venue: string; changes: FieldChange[] }[]
+  dropped: (Show & { id: string })[]
+  skipped: { show: Show; reason: string }[]
+}
+
+// row is the 1-based position of the incoming show in the import, used to report failures
+export type ImportPlan = {
+  toInsert: { row: number; show: Show }[]
+  toUpdate: { row: number; existing: Show & { id: string }; incoming: Show; changes: FieldChange[] }[]
+  unchanged: Show[]
+  skipped: { show: Show; reason: string }[]
+  // Existing shows that no incoming row matched (left alone when merging)
+  untouched: (Show & { id: string })[]
+}
+
+// Fields compared when an incoming row matches an existing show (show/date/venue are the match key)
+const COMPARED_FIELDS: ShowField[] = ["city", "ticket", "ticketVendor", "ticketLocation", "attendance", "note"]
+
+function normalizeKeyPart(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+/** Match key for a show: normalized show name + date + venue */
+export function getShowMatchKey(show: Pick<Show, "show" | "date" | "venue">): string {
+  return [normalizeKeyPart(show.show), show.date, normalizeKeyPart(show.venue)].join("|")
+}
+
+function normalizeFieldValue(value: Show[ShowField]): string {
+  return (value ?? "").toString().trim()
+}
+
+function diffShows(existing: Show, incoming: Show): FieldChange[] {
+  // Costs are optional in the sheet: a row without them keeps the saved ones (see import_shows)
+  const costFields = COST_FIELDS.filter((field) => incoming[field] !== undefined)
+  return [...COMPARED_FIELDS, ...costFields]
+    .filter((field) => normalizeFieldValue(existing[field]) !== normalizeFieldValue(incoming[field]))
+    .map((field) => ({ field, before: existing[field], after: incoming[field] }))
+}
+
+export function planShowImport(existing: Show[], incoming: Show[]): ImportPlan {
+  // A collection can hold several shows with the same key (added by hand or by email); a row
+  // matches the first, the others stay untouched so replacing leaves one
+  const existingByKey = new Map<string, Show & { id: string }>()
+  const saved = existing.filter((show): show is Show & { id: string } => Boolean(show.id))
+  for (const show of saved) {
+    const key = getShowMatchKey(show)
+    if (!existingByKey.has(key)) existingByKey.set(key, show)
+  }
+
+  const plan: ImportPlan = { toInsert: [], toUpdate: [], unchanged: [], skipped: [], untouched: [] }
+  const seenKeys = new Set<string>()
+
+  incoming.forEach((show, index) => {
+    const row = index + 1
+    const key = getShowMatchKey(show)
+    if (seenKeys.has(key)) {
+      plan.skipped.push({ show, reason: "Duplicate of an earlier row in this import" })
+      return
+    }
+    seenKeys.add(key)
+
+    const match = existingByKey.get(key)
+    if (!match) {
+      plan.toInsert.push({ row, show })
+      return
+    }
+
+    const changes = diffShows(match, show)
+    if (changes.length > 0) {
+      plan.toUpdate.push({ row, existing: match, incoming: show, changes })
+    } else {
+      plan.unchanged.push(match)
+    }
+  })
+
+  plan.untouched = saved.filter((show) => {
+    const key = getShowMatchKey(show)
+    return !seenKeys.has(key) || existingByKey.get(key) !== show
+  })
+
+  return plan
+}
+
+export function summarizeImportPlan(plan: ImportPlan, mode: ImportMode): ImportSummary {
+  return {
+    mode,
+    inserted: plan.toInsert.length,
+    updated: plan.toUpdate.length,
+    unchanged: plan.unchanged.length,
+    skipped: plan.skipped.length,
+    deleted: mode === "replace" ? plan.untouched.length : 0,
+  }
+}
+
+export function buildImportPreview(plan: ImportPlan, mode: ImportMode): ImportPreview {
+  return {
+    summary: summarizeImportPlan(plan, mode),
+    added: plan.toInsert.map(({ show }) => show),
+    changed: plan.toUpdate.map(({ existing, changes }) => ({
+      id: existing.id,
+      show: existing.show,
+      date: existing.date,
+      venue: existing.venue,
+      changes,
+    })),
+    dropped: mode === "replace" ? plan.untouched : [],
+    skipped: plan.skipped,
+  }
+}
@@ -0,0 +1,66 @@
+import { ATTENDANCE_STATUSES, type AttendanceFilter, type Show, type ShowFilters } from "./shows"
+
+/**
+ * Operators in the search box: `city:Berlin year:2024 status:attended venue:"Lido Berlin"`. They
+ * become filters; the rest of the text is searched for in show names, cities, venues and notes
+ * (see search_shows in migration 012). Tokens that are not a known operator with a valid value are
+ * searched for as text.
+ */
+
+export type SearchOperators = {
+  filters: ShowFilters
+  text: string
+}
+
+// status: values besides the exact attendance statuses (yes, no, cancelled, ...)
+const STATUS_FILTERS: Record<string, AttendanceFilter> = {
+  attended: "Attended",
+  upcoming: "Upcoming",
+  missed: "Not Attended",
+  "not attended": "Not Attended",
+  "not-attended": "Not Attended",
+}
+
+// key:value or key:"quoted value"
+const OPERATOR_RE = /(?<!\S)(city|venue|year|status|from|to):(?:"([^"]*)"|(\S+))/gi
+
+function applyOperator(filters: ShowFilters, key: string, value: string): boolean {
+  if (!value) return false
+  switch (key) {
+    case "city":
+    case "venue":
+      filters[key] = value
+      return true
+    case "year":
+      if (!/^\d{4}$/.test(value)) return false
+      filters.year = value
+      return true
+    case "from":
+    case "to":
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) return false
+      filters[key] = value
+      return true
+    case "status": {
+      const lower = value.toLowerCase()
+      if (STATUS_FILTERS[lower]) {
+        filters.attendance = STATUS_FILTERS[lower]
+        return true
+      }
+      const status = value.toUpperCase().replace(/-/g, " ") as Show["attendance"]
+      if (!ATTENDANCE_STATUSES.includes(status)) return false
+      filters.status = [...(filters.status ?? []), status]
+      return true
+    }
+    default:
+      return false
+  }
+}
+
+/** Split the search box text into operator filters and the free text to search for. */
+export function parseSearchOperators(search: string): SearchOperators {
+  const filters: ShowFilters = {}
+  const text = search.replace(OPERATOR_RE, (token, key: string, quoted: string | undefined, bare: string | undefined) =>
+    applyOperator(filters, key.toLowerCase(), (quoted ?? bare ?? "").trim()) ? " " : token
+  )
+  return { filters, text: text.replace(/\s+/g, " ").trim() }
+}
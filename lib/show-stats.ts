@@ -0,0 +1,149 @@
+import { getDayOfWeek, isUpcoming, type Show } from "./shows"
+
+/**
+ * Statistics for the stats page and the year-in-review image, over all shows or one year. Top
+ * lists, weekdays, streaks and gaps count the shows that were attended.
+ */
+
+export type NameCount = { name: string; count: number }
+
+export type ShowStats = {
+  year: string | null // null for lifetime stats
+  total: number
+  attended: number
+  missed: number // marked NO
+  cancelled: number
+  postponed: number
+  upcoming: number
+  attendanceRate: number | null // attended / (attended + missed), 0-1; null before any show is over
+  perYear: { year: string; total: number; attended: number }[] // every year, also in one year's stats
+  perMonth: { month: string; total: number; attended: number }[] // YYYY-MM, every month from first to last show
+  artistCount: number // distinct artists, venues and cities seen
+  venueCount: number
+  cityCount: number
+  topArtists: NameCount[]
+  topVenues: (NameCount & { city: string })[]
+  topCities: NameCount[]
+  weekdays: NameCount[] // Monday first
+  favoriteWeekday: string | null
+  longestStreak: { months: number; from: string; to: string } | null // consecutive months with a show, YYYY-MM
+  longestGap: { days: number; from: string; to: string } | null // between two shows, YYYY-MM-DD
+}
+
+const TOP_LIST_SIZE = 10
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Shows linked to the same artist or venue record count together; names without one are grouped
+// ignoring case and spacing ("Wet Leg" / "WET LEG"), and the first spelling seen wins
+function countNames(entries: { id?: string; name: string }[]): NameCount[] {
+  const counts = new Map<string, NameCount>()
+  for (const { id, name: value } of entries) {
+    const name = value.trim()
+    if (!name) continue
+    const key = id ?? name.toLowerCase().replace(/\s+/g, " ")
+    const entry = counts.get(key) ?? { name, count: 0 }
+    entry.count++
+    counts.set(key, entry)
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
+
+// "2025-03-14" -> months since year 0, so consecutive months differ by one
+function monthIndex(date: string): number {
+  return Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1
+}
+
+function monthKey(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`
+}
+
+function longestStreak(dates: string[]): ShowStats["longestStreak"] {
+  const months = [...new Set(dates.map(monthIndex))].sort((a, b) => a - b)
+  let best: ShowStats["longestStreak"] = null
+  let start = 0
+  for (let i = 0; i < months.length; i++) {
+    if (i > 0 && months[i] !== months[i - 1] + 1) start = i
+    const length = i - start + 1
+    if (!best || length > best.months) best = { months: length, from: monthKey(months[start]), to: monthKey(months[i]) }
+  }
+  return best
+}
+
+function longestGap(dates: string[]): ShowStats["longestGap"] {
+  const sorted = [...new Set(dates)].sort()
+  let best: ShowStats["longestGap"] = null
+  for (let i = 1; i < sorted.length; i++) {
+    const days = Math.round((Date.parse(sorted[i]) - Date.parse(sorted[i - 1])) / DAY_MS)
+    if (!best || days > best.days) best = { days, from: sorted[i - 1], to: sorted[i] }
+  }
+  return best
+}
+
+export function computeShowStats(allShows: Show[], year: string | null, today: Date): ShowStats {
+  const shows = year ? allShows.filter((show) => show.date.startsWith(year)) : allShows
+  const seen = shows.filter((show) => show.attendance === "YES")
+  const count = (attendance: Show["attendance"]) => shows.filter((show) => show.attendance === attendance).length
+  const missed = count("NO")
+
+  const years = new Map<string, { year: string; total: number; attended: number }>()
+  for (const show of allShows) {
+    const key = show.date.slice(0, 4)
+    const entry = years.get(key) ?? { year: key, total: 0, attended: 0 }
+    entry.total++
+    if (show.attendance === "YES") entry.attended++
+    years.set(key, entry)
+  }
+
+  const monthIndexes = shows.map((show) => monthIndex(show.date))
+  const firstMonth = year ? Number(year) * 12 : Math.min(...monthIndexes)
+  const lastMonth = year ? Number(year) * 12 + 11 : Math.max(...monthIndexes)
+  const perMonth =
+    shows.length > 0 || year
+      ? Array.from({ length: lastMonth - firstMonth + 1 }, (_, i) => {
+          const month = monthKey(firstMonth + i)
+          const inMonth = shows.filter((show) => show.date.startsWith(month))
+          return { month, total: inMonth.length, attended: inMonth.filter((show) => show.attendance === "YES").length }
+        })
+      : []
+
+  const weekdayCounts = new Map(WEEKDAYS.map((day) => [day, 0]))
+  for (const show of seen) {
+    const day = getDayOfWeek(show.date)
+    weekdayCounts.set(day, (weekdayCounts.get(day) ?? 0) + 1)
+  }
+  const weekdays = WEEKDAYS.map((name) => ({ name, count: weekdayCounts.get(name) ?? 0 }))
+  const favorite = weekdays.reduce((best, day) => (day.count > best.count ? day : best), weekdays[0])
+
+  const artists = countNames(seen.map((show) => ({ id: show.artistId, name: show.show })))
+  const venues = countNames(seen.map((show) => ({ id: show.venueId, name: `${show.venue}\u0000${show.city}` }))).map(
+    ({ name, count }) => {
+      const [venue, city] = name.split("\u0000")
+      return { name: venue, city, count }
+    }
+  )
+  const cities = countNames(seen.map((show) => ({ name: show.city })))
+
+  return {
+    year,
+    total: shows.length,
+    attended: seen.length,
+    missed,
+    cancelled: count("CANCELLED"),
+    postponed: count("POSTPONED"),
+    upcoming: shows.filter((show) => isUpcoming(show, today)).length,
+    attendanceRate: seen.length + missed > 0 ? seen.length / (seen.length + missed) : null,
+    perYear: [...years.values()].sort((a, b) => a.year.localeCompare(b.year)),
+    perMonth,
+    artistCount: artists.length,
+    venueCount: venues.length,
+    cityCount: cities.length,
+    topArtists: artists.slice(0, TOP_LIST_SIZE),
+    topVenues: venues.slice(0, TOP_LIST_SIZE),
+    topCities: cities.slice(0, TOP_LIST_SIZE),
+    weekdays,
+    favoriteWeekday: favorite.count > 0 ? favorite.name : null,
+    longestStreak: longestStreak(seen.map((show) => show.date)),
+    longestGap: longestGap(seen.map((show) => show.date)),
+  }
+}
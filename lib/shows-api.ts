@@ -1,37 +1,98 @@
-import type { Show } from "./shows"
+import { showQueryToParams, type ExportFormat, type Show, type ShowAttachment, type ShowQuery, type ShowUpdate } from "./shows"
+import type { ImportMode, ImportPreview, ImportSummary } from "./show-import"
+import { getAuthHeaders, getErrorMessage, saveBlob } from "./api-client"
 
 const API_BASE = "/api/shows"
 
-// Helper function to extract error message from response
-async function getErrorMessage(response: Response, defaultMessage: string): Promise<string> {
+// One page of GET /api/shows; pass nextCursor back as the cursor to load the next page
+export type ShowsPage = {
+  shows: Show[]
+  nextCursor: string | null
+}
+
+// Dashboard header: the years with shows and the selected year's counts
+export type ShowSummary = {
+  years: string[]
+  stats: { total: number; upcoming: number; attended: number }
+}
+
+// URL for GET /api/shows/export with the dashboard's current filters and sort order; exports are not paged
+function getExportUrl(format: ExportFormat, query: ShowQuery = {}): string {
+  const params = showQueryToParams({ ...query, cursor: undefined, limit: undefined })
+  params.set("format", format)
+  return `${API_BASE}/export?${params.toString()}`
+}
+
+// Download an export as a file. Plain links cannot send the auth header, so the file is fetched first.
+export async function downloadExport(format: ExportFormat, query: ShowQuery = {}): Promise<void> {
   try {
-    const error = await response.json()
-    return error.error || defaultMessage
-  } catch {
-    return `HTTP ${response.status}: ${response.statusText}`
+    const response = await fetch(getExportUrl(format, query), { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to export shows"))
+    }
+
+    const filename =
+      response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `sona-shows.${format}`
+    saveBlob(await response.blob(), filename)
+  } catch (error) {
+    console.error("Error exporting shows:", error)
+    throw error
   }
 }
 
-export async function fetchShows(): Promise<Show[]> {
+// Download a ticket file attached to a show (PDF or Wallet pass)
+export async function downloadAttachment(attachment: ShowAttachment): Promise<void> {
   try {
-    const response = await fetch(API_BASE)
+    const response = await fetch(`${API_BASE}/attachments?id=${encodeURIComponent(attachment.id)}`, {
+      headers: await getAuthHeaders(),
+    })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to download ticket"))
+    }
+    saveBlob(await response.blob(), attachment.filename)
+  } catch (error) {
+    console.error("Error downloading ticket:", error)
+    throw error
+  }
+}
+
+export async function fetchShows(query: ShowQuery = {}): Promise<ShowsPage> {
+  try {
+    const params = showQueryToParams(query).toString()
+    const response = await fetch(params ? `${API_BASE}?${params}` : API_BASE, { headers: await getAuthHeaders() })
     if (!response.ok) {
-      throw new Error("Failed to fetch shows")
+      throw new Error(await getErrorMessage(response, "Failed to fetch shows"))
     }
     const data = await response.json()
-    return data.shows || []
+    return { shows: data.shows || [], nextCursor: data.nextCursor ?? null }
   } catch (error) {
     console.error("Error fetching shows:", error)
     throw error
   }
 }
 
+export async function fetchShowSummary(year?: string): Promise<ShowSummary> {
+  try {
+    const response = await fetch(`${API_BASE}/summary${year ? `?year=${encodeURIComponent(year)}` : ""}`, {
+      headers: await getAuthHeaders(),
+    })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load summary"))
+    }
+    return await response.json()
+  } catch (error) {
+    console.error("Error fetching show summary:", error)
+    throw error
+  }
+}
+
 export async function createShow(show: Show): Promise<Show> {
   try {
     const response = await fetch(API_BASE, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
       },
       body: JSON.stringify(show),
     })
@@ -61,33 +122,57 @@ export async function createShow(show: Show): Promise<Show> {
   }
 }
 
-export async function importShows(shows: Show[]): Promise<void> {
+export async function importShows(shows: Show[], mode: ImportMode = "merge"): Promise<ImportSummary> {
   try {
     const response = await fetch(API_BASE, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
       },
-      body: JSON.stringify({ shows }),
+      body: JSON.stringify({ shows, mode }),
     })
 
     if (!response.ok) {
       throw new Error(await getErrorMessage(response, "Failed to import shows"))
     }
 
-    await response.json()
+    return await response.json()
   } catch (error) {
     console.error("Error importing shows:", error)
     throw error
   }
 }
 
-export async function updateShow(show: Show & { id: string }): Promise<Show> {
+export async function previewImport(shows: Show[], mode: ImportMode = "merge"): Promise<ImportPreview> {
+  try {
+    const response = await fetch(API_BASE, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ shows, mode, dryRun: true }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to preview import"))
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error("Error previewing import:", error)
+    throw error
+  }
+}
+
+export async function updateShow(show: ShowUpdate): Promise<Show> {
   try {
     const response = await fetch(API_BASE, {
       method: "PATCH",
       headers: {
         "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
       },
       body: JSON.stringify(show),
     })
@@ -102,4 +187,54 @@ export async function updateShow(show: Show & { id: string }): Promise<Show> {
     console.error("Error updating show:", error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+export async function deleteShows(ids: string[]): Promise<string[]> {
+  try {
+    const response = await fetch(API_BASE, {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ ids }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to delete shows"))
+    }
+
+    const data = await response.json()
+    return data.ids
+  } catch (error) {
+    console.error("Error deleting shows:", error)
+    throw error
+  }
+}
+
+export async function deleteShow(id: string): Promise<void> {
+  await deleteShows([id])
+}
+
+// Undo a soft delete (DELETE only sets deleted_at)
+export async function restoreShows(ids: string[]): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE}/restore`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ ids }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to restore shows"))
+    }
+
+    await response.json()
+  } catch (error) {
+    console.error("Error restoring shows:", error)
+    throw error
+  }
+}
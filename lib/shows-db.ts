@@ -0,0 +1,307 @@
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js"
+import { DEFAULT_PAGE_SIZE, type Show, type ShowFilters, type ShowQuery, type ShowSort } from "./shows"
+import { parseSearchOperators } from "./show-search"
+import type { Database } from "./database.types"
+import type { ParsedShowFields } from "./parse-show-from-email"
+
+/**
+ * Server-side helpers shared by the /api/shows routes: row <-> Show mapping, filtering and
+ * pagination, Supabase error formatting and soft deletes.
+ */
+
+export type DbRow = Database["public"]["Tables"]["shows"]["Row"]
+
+type AttachmentRow = Database["public"]["Tables"]["show_attachments"]["Row"]
+
+// GET /api/shows embeds each show's ticket files
+export const SHOW_SELECT = "*, show_attachments(id, filename, content_type, size)"
+
+export type DbRowWithAttachments = DbRow & {
+  show_attachments?: Pick<AttachmentRow, "id" | "filename" | "content_type" | "size">[]
+}
+
+// Helper function to transform database row to Show type
+export function dbRowToShow(row: DbRowWithAttachments): Show {
+  return {
+    id: row.id,
+    show: row.show,
+    date: row.date,
+    city: row.city,
+    venue: row.venue,
+    artistId: row.artist_id ?? undefined,
+    venueId: row.venue_id ?? undefined,
+    ticket: row.ticket,
+    ticketVendor: row.ticket_vendor,
+    ticketLocation: row.ticket_location,
+    attendance: row.attendance,
+    note: row.note || undefined,
+    uncertainFields: row.uncertain_fields?.length ? row.uncertain_fields : undefined,
+    orderNumber: row.order_number ?? undefined,
+    quantity: row.quantity ?? undefined,
+    seat: row.seat ?? undefined,
+    // numeric comes back as a string for large values
+    price: row.price !== null && row.price !== undefined ? Number(row.price) : undefined,
+    fees: row.fees !== null && row.fees !== undefined ? Number(row.fees) : undefined,
+    currency: row.currency ?? undefined,
+    // time columns come back as HH:MM:SS
+    doorTime: row.door_time ? row.door_time.slice(0, 5) : undefined,
+    previousDates: row.previous_dates?.length ? row.previous_dates : undefined,
+    attachments: row.show_attachments?.length
+      ? row.show_attachments.map((attachment) => ({
+          id: attachment.id,
+          filename: attachment.filename,
+          contentType: attachment.content_type,
+          size: attachment.size,
+        }))
+      : undefined,
+  }
+}
+
+// Helper function to transform Show type to database insert format. Costs the show has no value
+// for are left out rather than set to null, so import_shows keeps the saved ones on update.
+export function showToInsert(show: Show): Database["public"]["Tables"]["shows"]["Insert"] {
+  return {
+    show: show.show,
+    date: show.date,
+    city: show.city,
+    venue: show.venue,
+    ticket: show.ticket,
+    ticket_vendor: show.ticketVendor,
+    ticket_location: show.ticketLocation,
+    attendance: show.attendance,
+    note: show.note || null,
+    ...(show.price !== undefined && { price: show.price }),
+    ...(show.fees !== undefined && { fees: show.fees }),
+    ...(show.currency !== undefined && { currency: show.currency }),
+    ...(show.quantity !== undefined && { quantity: show.quantity }),
+  }
+}
+
+// Show created from a forwarded ticket email: the ticket is in the vendor's app unless the email
+// says otherwise, past shows count as attended
+export function parsedShowToInsert(parsed: ParsedShowFields, userId?: string): Database["public"]["Tables"]["shows"]["Insert"] {
+  const showDate = new Date(parsed.date)
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  showDate.setHours(0, 0, 0, 0)
+
+  return {
+    show: parsed.show,
+    date: parsed.date,
+    city: parsed.city,
+    venue: parsed.venue,
+    ticket: "YES",
+    ticket_vendor: parsed.vendor,
+    ticket_location: parsed.ticket?.location ?? "In App",
+    attendance: showDate < today ? "YES" : "NOT YET",
+    note: null,
+    order_number: parsed.ticket?.orderNumber ?? null,
+    quantity: parsed.ticket?.quantity ?? null,
+    seat: parsed.ticket?.seat ?? null,
+    price: parsed.ticket?.price ?? null,
+    currency: parsed.ticket?.currency ?? null,
+    door_time: parsed.ticket?.doorTime ?? null,
+    ...(userId ? { user_id: userId } : {}),
+  }
+}
+
+// Helper function to format Supabase error messages
+export function formatSupabaseError(error: any): string {
+  return `${error.message}${error.details ? ` (Details: ${error.details})` : ""}${error.hint ? ` (Hint: ${error.hint})` : ""}`
+}
+
+// Helper function to read a single id or a list of ids from a request body
+export function getIdsFromBody(body: { id?: unknown; ids?: unknown }): string[] {
+  const ids = Array.isArray(body.ids) ? body.ids : body.id ? [body.id] : []
+  return ids.filter((id): id is string => typeof id === "string" && id.length > 0)
+}
+
+/** Soft-delete (or restore) shows by setting/clearing deleted_at. Resolves to the affected ids. */
+export async function setShowsDeleted(client: SupabaseClient<Database>, ids: string[], deleted: boolean) {
+  const updateData: Database["public"]["Tables"]["shows"]["Update"] = {
+    deleted_at: deleted ? new Date().toISOString() : null,
+  }
+  return client
+    .from("shows")
+    // @ts-ignore - Supabase type inference issue: update method incorrectly infers 'never' type
+    .update(updateData)
+    .in("id", ids)
+    .select("id")
+}
+
+// Sort column per order; id breaks ties so every row has a unique position for the cursor.
+// Relevance is the order search_shows returns its results in.
+const SORT_COLUMNS: Record<Exclude<ShowSort, "relevance">, { column: "date" | "show" | "city" | "venue"; ascending: boolean }> = {
+  date: { column: "date", ascending: true },
+  "-date": { column: "date", ascending: false },
+  show: { column: "show", ascending: true },
+  city: { column: "city", ascending: true },
+  venue: { column: "venue", ascending: true },
+}
+
+// Attendance values the dashboard's "Not Attended" filter covers
+const NOT_ATTENDED_STATUSES: Show["attendance"][] = ["NO", "CANCELLED", "POSTPONED"]
+
+// Values inside a PostgREST or=() filter are double-quoted so commas and parentheses in them stay literal
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`
+}
+
+// The filters with the search box operators applied, and the free text left to search for
+function resolveSearch(filters: ShowFilters): { filters: ShowFilters; text: string } {
+  if (!filters.search) return { filters, text: "" }
+  const operators = parseSearchOperators(filters.search)
+  const status = [...(filters.status ?? []), ...(operators.filters.status ?? [])]
+  return {
+    filters: { ...filters, ...operators.filters, status: status.length ? status : undefined },
+    text: operators.text,
+  }
+}
+
+/** The order a query is sorted in: searches best match first unless asked otherwise, everything else by date. */
+export function resolveShowSort(query: ShowQuery): ShowSort {
+  const { text } = resolveSearch(query)
+  const sort = query.sort ?? (text ? "relevance" : "date")
+  // Without text there is nothing to rank; newest first is what search_shows falls back to
+  return sort === "relevance" && !text ? "-date" : sort
+}
+
+/**
+ * Non-deleted shows matching the dashboard filters. Upcoming means not attended yet and dated today
+ * (UTC) or later. Search text, city and venue go through search_shows (migration 012), which
+ * ignores accents and tolerates typos. Rows embed their ticket files unless plain rows are asked
+ * for; head only counts the matching shows.
+ */
+export function selectShows(
+  client: SupabaseClient<Database>,
+  showFilters: ShowFilters,
+  options: { plainRows?: boolean; head?: boolean } = {}
+) {
+  const { filters, text } = resolveSearch(showFilters)
+  const columns = options.head ? "id" : options.plainRows ? "*" : SHOW_SELECT
+  const countOptions = options.head ? { count: "exact" as const, head: true } : undefined
+  // Typed as plain rows whichever columns are selected; callers cast to DbRowWithAttachments
+  const fromTable = () => client.from("shows").select(columns as "*", countOptions)
+
+  let query =
+    text || filters.city || filters.venue
+      ? // Same rows as the table, so the builder takes the same filters
+        (client
+          .rpc("search_shows", { search: text, city_name: filters.city ?? null, venue_name: filters.venue ?? null }, countOptions)
+          .select(columns) as unknown as ReturnType<typeof fromTable>)
+      : fromTable()
+  query = query.is("deleted_at", null)
+
+  if (filters.year) query = query.gte("date", `${filters.year}-01-01`).lte("date", `${filters.year}-12-31`)
+  if (filters.from) query = query.gte("date", filters.from)
+  if (filters.to) query = query.lte("date", filters.to)
+
+  if (filters.attendance === "Attended") query = query.eq("attendance", "YES")
+  if (filters.attendance === "Not Attended") query = query.in("attendance", NOT_ATTENDED_STATUSES)
+  if (filters.attendance === "Upcoming") {
+    query = query.eq("attendance", "NOT YET").gte("date", new Date().toISOString().slice(0, 10))
+  }
+  if (filters.status?.length) query = query.in("attendance", filters.status)
+
+  return query
+}
+
+type ShowsQueryBuilder = ReturnType<typeof selectShows>
+
+/** Order shows by the given sort, with id as the tie-breaker. Relevance keeps search_shows' order. */
+export function orderShows(query: ShowsQueryBuilder, sort: ShowSort = "date"): ShowsQueryBuilder {
+  if (sort === "relevance") return query
+  const { column, ascending } = SORT_COLUMNS[sort]
+  return query.order(column, { ascending }).order("id", { ascending })
+}
+
+// The sort value and id of the last show on the previous page; for relevance, the number of
+// results already shown, since a rank cannot be compared across requests
+type ShowCursor = [value: string, id: string] | [offset: number]
+
+export function decodeShowCursor(cursor: string): ShowCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (!Array.isArray(decoded)) return null
+    if (decoded.length === 2 && decoded.every((part) => typeof part === "string")) return decoded as ShowCursor
+    if (decoded.length === 1 && Number.isInteger(decoded[0]) && decoded[0] >= 0) return decoded as ShowCursor
+    return null
+  } catch {
+    return null
+  }
+}
+
+function encodeShowCursor(cursor: ShowCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+/**
+ * One page of shows after the cursor (keyset pagination, so pages stay stable while shows are
+ * added; search results by relevance are paged by offset). Fetches one row more than the page
+ * size to tell whether there is a next page.
+ */
+export function pageShows(query: ShowsQueryBuilder, showQuery: ShowQuery, cursor: ShowCursor | null) {
+  const sort = resolveShowSort(showQuery)
+  const limit = showQuery.limit ?? DEFAULT_PAGE_SIZE
+  if (sort === "relevance") {
+    const offset = cursor?.length === 1 ? cursor[0] : 0
+    return query.range(offset, offset + limit)
+  }
+  if (cursor?.length === 2) {
+    const { column, ascending } = SORT_COLUMNS[sort]
+    const op = ascending ? "gt" : "lt"
+    const [value, id] = cursor.map(quoteFilterValue)
+    query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`)
+  }
+  return orderShows(query, sort).limit(limit + 1)
+}
+
+/** Split the rows fetched by pageShows into the page and the cursor of the next one. */
+export function toShowsPage(rows: DbRowWithAttachments[], showQuery: ShowQuery, cursor: ShowCursor | null) {
+  const sort = resolveShowSort(showQuery)
+  const limit = showQuery.limit ?? DEFAULT_PAGE_SIZE
+  const page = rows.slice(0, limit)
+  let nextCursor: string | null = null
+  if (rows.length > limit) {
+    const last = page[page.length - 1]
+    const offset = cursor?.length === 1 ? cursor[0] : 0
+    nextCursor = encodeShowCursor(sort === "relevance" ? [offset + limit] : [last[SORT_COLUMNS[sort].column], last.id])
+  }
+  return { shows: page.map(dbRowToShow), nextCursor }
+}
+
+// PostgREST returns at most 1000 rows per request
+const FETCH_BATCH_SIZE = 1000
+
+type BatchQuery = {
+  range(from: number, to: number): PromiseLike<{ data: unknown; error: PostgrestError | null }>
+}
+
+/**
+ * Every row of a query, fetched in batches. The query is built again for each batch, so it needs a
+ * stable order (orderShows gives one).
+ */
+export async function fetchInBatches<Row>(buildQuery: () => BatchQuery): Promise<{ data: Row[]; error: PostgrestError | null }> {
+  const rows: Row[] = []
+  for (let offset = 0; ; offset += FETCH_BATCH_SIZE) {
+    const { data, error } = await buildQuery().range(offset, offset + FETCH_BATCH_SIZE - 1)
+    if (error) return { data: rows, error }
+    const batch = (data as Row[]) || []
+    rows.push(...batch)
+    if (batch.length < FETCH_BATCH_SIZE) return { data: rows, error: null }
+  }
+}
+
+/** Every non-deleted show, fetched in batches, for statistics that need the whole collection. */
+export async function fetchAllShows(client: SupabaseClient<Database>): Promise<Show[]> {
+  const { data, error } = await fetchInBatches<DbRow>(() =>
+    client
+      .from("shows")
+      .select("*")
+      .is("deleted_at", null)
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+  )
+  if (error) throw new Error(`Failed to load shows: ${formatSupabaseError(error)}`)
+  return data.map(dbRowToShow)
+}
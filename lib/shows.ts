@@ -1,14 +1,150 @@
+import { iterateCSVRecords, toCSVRow } from "./csv"
+
 export type Show = {
   id?: string
-  show: string
+  show: string // display names of the linked artist and venue (see lib/entities.ts)
   date: string
   city: string
   venue: string
+  artistId?: string
+  venueId?: string
   ticket: "YES" | "NO"
   ticketVendor: string
   ticketLocation: string
   attendance: "YES" | "NO" | "NOT YET" | "CANCELLED" | "POSTPONED"
   note?: string
+  uncertainFields?: string[] // fields parsed from a forwarded email with low confidence, cleared on edit
+  // Order details, filled in from ticket confirmation emails; costs can also be entered or imported
+  orderNumber?: string
+  quantity?: number
+  seat?: string
+  price?: number // for all tickets of the order
+  fees?: number // booking and service fees on top of price
+  currency?: string // ISO 4217, e.g. EUR
+  doorTime?: string // HH:MM
+  previousDates?: string[] // YYYY-MM-DD, earlier dates of a postponed show, oldest first
+  attachments?: ShowAttachment[] // ticket files from forwarded emails
+}
+
+// Fields the add/edit form and the sheet carry a ticket's cost in
+export const COST_FIELDS = ["price", "fees", "currency", "quantity"] as const
+
+export type CostField = (typeof COST_FIELDS)[number]
+
+// PATCH /api/shows body: null clears a saved cost, an omitted field is left alone
+export type ShowUpdate = Omit<Show, CostField> & { id: string } & { [K in CostField]?: Show[K] | null }
+
+export type ShowAttachment = {
+  id: string
+  filename: string
+  contentType: string
+  size: number // bytes
+}
+
+export const ATTENDANCE_STATUSES = ["NOT YET", "YES", "NO", "CANCELLED", "POSTPONED"] as const
+
+export const ATTENDANCE_FILTERS = ["All", "Attended", "Not Attended", "Upcoming"] as const
+
+export type AttendanceFilter = (typeof ATTENDANCE_FILTERS)[number]
+
+export const EXPORT_FORMATS = ["csv", "json", "ics"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// "-date" is newest first, "relevance" best search match first; the other orders are ascending
+export const SHOW_SORTS = ["relevance", "date", "-date", "show", "city", "venue"] as const
+
+export type ShowSort = (typeof SHOW_SORTS)[number]
+
+// Dashboard filters; accepted as query parameters by GET /api/shows and GET /api/shows/export
+export type ShowFilters = {
+  year?: string
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+  attendance?: AttendanceFilter
+  status?: Show["attendance"][]
+  city?: string // exact, ignoring case and accents
+  venue?: string // exact, ignoring case and accents
+  search?: string // text and operators like city:Berlin, see lib/show-search.ts
+}
+
+// One page of GET /api/shows: filters plus sort order and the cursor returned with the previous page.
+// Without a sort order, searches are sorted by relevance and everything else by date.
+export type ShowQuery = ShowFilters & {
+  sort?: ShowSort
+  cursor?: string
+  limit?: number
+}
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 500
+
+const DATE_PARAM_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/** Query string for GET /api/shows and /api/shows/export. Empty and default values are left out. */
+export function showQueryToParams(query: ShowQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.year) params.set("year", query.year)
+  if (query.from) params.set("from", query.from)
+  if (query.to) params.set("to", query.to)
+  if (query.attendance && query.attendance !== "All") params.set("attendance", query.attendance)
+  if (query.status?.length) params.set("status", query.status.join(","))
+  if (query.city) params.set("city", query.city)
+  if (query.venue) params.set("venue", query.venue)
+  if (query.search) params.set("search", query.search)
+  if (query.sort) params.set("sort", query.sort)
+  if (query.cursor) params.set("cursor", query.cursor)
+  if (query.limit) params.set("limit", String(query.limit))
+  return params
+}
+
+/** Read and validate the query parameters written by showQueryToParams. */
+export function parseShowQuery(params: URLSearchParams): { query: ShowQuery } | { error: string } {
+  const query: ShowQuery = {
+    year: params.get("year") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    city: params.get("city")?.trim() || undefined,
+    venue: params.get("venue")?.trim() || undefined,
+    search: params.get("search")?.trim() || undefined,
+    cursor: params.get("cursor") || undefined,
+  }
+
+  if (query.year && !/^\d{4}$/.test(query.year)) return { error: `Invalid year: ${query.year}` }
+  for (const date of [query.from, query.to]) {
+    if (date && (!DATE_PARAM_RE.test(date) || isNaN(new Date(date).getTime()))) {
+      return { error: `Invalid date: ${date}. Expected YYYY-MM-DD format.` }
+    }
+  }
+
+  const attendance = (params.get("attendance") ?? "All") as AttendanceFilter
+  if (!ATTENDANCE_FILTERS.includes(attendance)) return { error: `Unsupported attendance filter: ${attendance}` }
+  query.attendance = attendance
+
+  const status = params.get("status")
+  if (status) {
+    const statuses = status.split(",").map((value) => value.trim().toUpperCase()) as Show["attendance"][]
+    const unknown = statuses.find((value) => !ATTENDANCE_STATUSES.includes(value))
+    if (unknown) return { error: `Unsupported attendance status: ${unknown}` }
+    query.status = statuses
+  }
+
+  const sort = params.get("sort") as ShowSort | null
+  if (sort) {
+    if (!SHOW_SORTS.includes(sort)) return { error: `Unsupported sort order: ${sort}. Use ${SHOW_SORTS.join(", ")}.` }
+    query.sort = sort
+  }
+
+  const limit = params.get("limit")
+  if (limit) {
+    const value = Number(limit)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      return { error: `Invalid limit: ${limit}. Expected 1-${MAX_PAGE_SIZE}.` }
+    }
+    query.limit = value
+  }
+
+  return { query }
 }
 
 // Helper function to get day of week from date
@@ -16,102 +152,278 @@ export function getDayOfWeek(date: string): string {
   return new Date(date).toLocaleDateString("en-US", { weekday: "long" })
 }
 
+// Helper function to normalize date (set hours to 0)
+export function normalizeDate(date: Date | string): Date {
+  const d = typeof date === "string" ? new Date(date) : date
+  d.setHours(0, 0, 0, 0)
+  return d
+}
+
+// Helper function to check if show is upcoming
+export function isUpcoming(show: Show, today: Date): boolean {
+  if (show.attendance !== "NOT YET") return false
+  const showDate = normalizeDate(show.date)
+  return showDate >= today
+}
+
+// Helper function to format a ticket price, e.g. 32.5 + "EUR" -> "€32.50"
+export function formatPrice(price: number, currency?: string): string {
+  if (!currency) return price.toFixed(2)
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(price)
+  } catch {
+    // Unknown currency code
+    return `${price.toFixed(2)} ${currency}`
+  }
+}
+
+// A CSV row that could not be turned into a show (line is the 1-based line the row starts on)
+export type CSVRowError = {
+  line: number
+  raw: string
+  reason: string
+}
+
+export type CSVParseResult = {
+  shows: Show[]
+  errors: CSVRowError[]
+}
+
 export function parseGoogleSheetsCSV(csvText: string): Show[] {
-  const lines = csvText.split("\n").filter((line) => line.trim())
-  if (lines.length < 2) return []
+  return parseGoogleSheetsCSVWithErrors(csvText).shows
+}
+
+type ColumnKey =
+  | "show"
+  | "date"
+  | "dotw"
+  | "city"
+  | "venue"
+  | "ticket"
+  | "ticketVendor"
+  | "ticketLocation"
+  | "attendance"
+  | "note"
+  | CostField
+
+// Accepted header names per column, compared after normalizeHeader (DOTW is optional and ignored)
+const COLUMN_ALIASES: Record<ColumnKey, string[]> = {
+  show: ["SHOW", "SHOW NAME", "ARTIST", "EVENT", "BAND"],
+  date: ["DATE", "DATUM", "SHOW DATE", "EVENT DATE"],
+  dotw: ["DOTW", "DAY", "WEEKDAY", "DAY OF THE WEEK"],
+  city: ["CITY", "STADT", "TOWN"],
+  venue: ["VENUE", "PLACE", "CLUB"],
+  ticket: ["TICKET", "TICKETS", "HAS TICKET"],
+  ticketVendor: ["TICKET VENDOR", "VENDOR", "BOUGHT FROM"],
+  ticketLocation: ["TICKET LOCATION", "TICKET LOC", "TICKET TYPE"],
+  attendance: ["ATTENDED", "ATTENDANCE", "STATUS"],
+  note: ["NOTE", "NOTES", "COMMENT", "COMMENTS"],
+  price: ["PRICE", "TICKET PRICE", "COST", "PAID"],
+  fees: ["FEES", "FEE", "SERVICE FEE", "BOOKING FEE"],
+  currency: ["CURRENCY", "CUR"],
+  quantity: ["QUANTITY", "QTY", "TICKET COUNT", "NUMBER OF TICKETS"],
+}
+
+const REQUIRED_COLUMNS: ColumnKey[] = ["show", "date", "city", "venue"]
+
+// "SHØW" -> "SHOW", " Ticket  vendor " -> "TICKET VENDOR"
+function normalizeHeader(header: string): string {
+  return header
+    .replace(/[Øø]/g, "O")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, " ")
+    .trim()
+    .toUpperCase()
+}
+
+function mapHeaderColumns(headers: string[]): Partial<Record<ColumnKey, number>> {
+  const columns: Partial<Record<ColumnKey, number>> = {}
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header)
+    const key = (Object.keys(COLUMN_ALIASES) as ColumnKey[]).find((column) => COLUMN_ALIASES[column].includes(normalized))
+    // First matching column wins if a sheet repeats a header
+    if (key && columns[key] === undefined) columns[key] = index
+  })
+  return columns
+}
+
+function parseAttendance(value: string): Show["attendance"] {
+  const normalized = value.trim().toUpperCase().replace(/\s+/g, " ")
+  if (normalized === "YES") return "YES"
+  if (normalized === "NOT YET" || normalized === "NOTYET") return "NOT YET"
+  if (normalized === "CANCELLED" || normalized === "CANCELED") return "CANCELLED"
+  if (normalized === "POSTPONED") return "POSTPONED"
+  return "NO"
+}
+
+// Convert DD.MM.YYYY (Google Sheets, EU) or YYYY-MM-DD to YYYY-MM-DD; null if neither or not a real date
+function parseSheetDate(value: string): string | null {
+  let date = value
+  const dotted = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(value)
+  if (dotted) {
+    const [, day, month, year] = dotted
+    date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10))
+  const check = new Date(Date.UTC(year, month - 1, day))
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null
+  return date
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "€": "EUR", $: "USD", "£": "GBP" }
+
+// "32.50" / "32,50" / "€32.50" / "32.50 EUR" -> the amount and the currency it names, if any
+function parseSheetAmount(value: string): { amount: number; currency?: string } | null {
+  const m = /^(€|\$|£|[A-Z]{3})?\s*(\d+(?:[.,]\d{1,2})?)\s*(€|\$|£|[A-Z]{3})?$/i.exec(value)
+  if (!m || (m[1] && m[3])) return null
+  const symbol = m[1] ?? m[3]
+  return {
+    amount: Number(m[2].replace(",", ".")),
+    currency: symbol ? (CURRENCY_SYMBOLS[symbol] ?? symbol.toUpperCase()) : undefined,
+  }
+}
+
+// The optional cost columns of a row; a string is the reason the row cannot be imported
+function parseSheetCosts(get: (column: ColumnKey) => string): Pick<Show, CostField> | string {
+  const costs: Pick<Show, CostField> = {}
+  let symbolCurrency: string | undefined
+  for (const column of ["price", "fees"] as const) {
+    const value = get(column)
+    if (!value) continue
+    const parsed = parseSheetAmount(value)
+    if (!parsed) return `Invalid ${column} "${value}"`
+    costs[column] = parsed.amount
+    symbolCurrency ??= parsed.currency
+  }
+
+  const currency = get("currency")
+  if (currency && !/^[A-Za-z]{3}$/.test(currency)) return `Invalid currency "${currency}" (expected a code like EUR)`
+  costs.currency = currency ? currency.toUpperCase() : symbolCurrency
 
-  // Skip header row (line 0)
+  const quantity = get("quantity")
+  if (quantity) {
+    if (!/^\d+$/.test(quantity) || Number(quantity) === 0) return `Invalid quantity "${quantity}"`
+    costs.quantity = Number(quantity)
+  }
+  return costs
+}
+
+/**
+ * Parse a Google Sheets CSV export. Columns are mapped by header name (see COLUMN_ALIASES),
+ * so their order does not matter. Rows that cannot be imported are returned in errors with
+ * their line number instead of being dropped silently.
+ */
+export function parseGoogleSheetsCSVWithErrors(csvText: string): CSVParseResult {
   const shows: Show[] = []
+  const errors: CSVRowError[] = []
+  let columns: Partial<Record<ColumnKey, number>> | null = null
+
+  for (const record of iterateCSVRecords(csvText)) {
+    const values = record.fields.map((value) => value.trim())
+    // Skip empty rows
+    if (values.every((value) => !value)) continue
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i]
-    // Simple CSV parsing (handles quoted fields)
-    const values: string[] = []
-    let current = ""
-    let inQuotes = false
-
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j]
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === "," && !inQuotes) {
-        values.push(current.trim())
-        current = ""
-      } else {
-        current += char
+    if (!columns) {
+      columns = mapHeaderColumns(values)
+      const missing = REQUIRED_COLUMNS.filter((column) => columns![column] === undefined)
+      if (missing.length > 0) {
+        errors.push({
+          line: record.line,
+          raw: record.raw,
+          reason: `Header row is missing required column(s): ${missing.map((column) => COLUMN_ALIASES[column][0]).join(", ")}`,
+        })
+        return { shows: [], errors }
       }
+      continue
+    }
+
+    const columnMap = columns
+    const get = (column: ColumnKey) => {
+      const index = columnMap[column]
+      return index === undefined ? "" : values[index] ?? ""
     }
-    values.push(current.trim())
-
-    // Expected columns: SHØW, DATE, DOTW (optional), CITY, VENUE, TICKET, TICKET VENDOR, TICKET LOCATION, ATTENDED, NOTE
-    // Note: DOTW is ignored - we calculate it from DATE
-    if (values.length >= 9) {
-      const show = values[0]?.trim() || ""
-      const dateStr = values[1]?.trim() || ""
-      // Skip dotw (values[2]) - we'll calculate it from date
-      const city = values[3]?.trim() || ""
-      const venue = values[4]?.trim() || ""
-      const ticket = values[5]?.trim().toUpperCase() === "YES" ? "YES" : "NO"
-      const ticketVendor = values[6]?.trim() || ""
-      const ticketLocation = values[7]?.trim() || ""
-      const attendanceValue = values[8]?.trim().toUpperCase()
-      // Handle "YES", "NO", "NOT YET", "CANCELLED", "POSTPONED" values
-      let attendance: "YES" | "NO" | "NOT YET" | "CANCELLED" | "POSTPONED"
-      if (attendanceValue === "YES") {
-        attendance = "YES"
-      } else if (attendanceValue === "NOT YET" || attendanceValue === "NOTYET" || attendanceValue === "NOT YET ") {
-        attendance = "NOT YET"
-      } else if (attendanceValue === "CANCELLED" || attendanceValue === "CANCELED") {
-        attendance = "CANCELLED"
-      } else if (attendanceValue === "POSTPONED") {
-        attendance = "POSTPONED"
-      } else {
-        attendance = "NO"
-      }
-      const note = values[9]?.trim() || undefined
-
-      // Skip empty rows
-      if (!show && !dateStr) continue
-
-      // Convert date from DD.MM.YYYY to YYYY-MM-DD
-      let date = dateStr
-      if (dateStr.includes(".")) {
-        const parts = dateStr.split(".")
-        if (parts.length === 3) {
-          const [day, month, year] = parts
-          if (day && month && year) {
-            // Validate and convert
-            const dayNum = parseInt(day.trim(), 10)
-            const monthNum = parseInt(month.trim(), 10)
-            const yearNum = parseInt(year.trim(), 10)
-            
-            if (!isNaN(dayNum) && !isNaN(monthNum) && !isNaN(yearNum)) {
-              date = `${yearNum}-${month.trim().padStart(2, "0")}-${day.trim().padStart(2, "0")}`
-            }
-          }
-        }
-      }
-      
-      // Validate date format is YYYY-MM-DD before proceeding
-      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-        console.warn(`Skipping invalid date format: ${dateStr} (converted to: ${date})`)
-        continue
-      }
 
-      shows.push({
-        show,
-        date,
-        city,
-        venue,
-        ticket,
-        ticketVendor,
-        ticketLocation,
-        attendance,
-        note: note || undefined,
+    const show = get("show")
+    const dateStr = get("date")
+    const missing = REQUIRED_COLUMNS.filter((column) => !get(column))
+    if (missing.length > 0) {
+      errors.push({
+        line: record.line,
+        raw: record.raw,
+        reason: `Missing ${missing.map((column) => COLUMN_ALIASES[column][0].toLowerCase()).join(", ")}`,
       })
+      continue
+    }
+
+    const date = parseSheetDate(dateStr)
+    if (!date) {
+      errors.push({ line: record.line, raw: record.raw, reason: `Invalid date "${dateStr}" (expected DD.MM.YYYY or YYYY-MM-DD)` })
+      continue
     }
+
+    const costs = parseSheetCosts(get)
+    if (typeof costs === "string") {
+      errors.push({ line: record.line, raw: record.raw, reason: costs })
+      continue
+    }
+
+    shows.push({
+      show,
+      date,
+      city: get("city"),
+      venue: get("venue"),
+      ticket: get("ticket").toUpperCase() === "YES" ? "YES" : "NO",
+      ticketVendor: get("ticketVendor"),
+      ticketLocation: get("ticketLocation"),
+      attendance: parseAttendance(get("attendance")),
+      note: get("note") || undefined,
+      ...costs,
+    })
   }
 
-  return shows.filter((c) => c.show && c.date)
+  return { shows, errors }
 }
 
+// Same layout as the Google Sheet plus the cost columns, so an export can be pasted straight back into the import panel
+const EXPORT_CSV_HEADER = [
+  "SHØW",
+  "DATE",
+  "DOTW",
+  "CITY",
+  "VENUE",
+  "TICKET",
+  "TICKET VENDOR",
+  "TICKET LOCATION",
+  "ATTENDED",
+  "NOTE",
+  "PRICE",
+  "FEES",
+  "CURRENCY",
+  "QUANTITY",
+]
+
+export function showsToCSV(shows: Show[]): string {
+  const rows = shows.map((show) => {
+    const [year, month, day] = show.date.split("-")
+    return toCSVRow([
+      show.show,
+      `${day}.${month}.${year}`,
+      getDayOfWeek(show.date),
+      show.city,
+      show.venue,
+      show.ticket,
+      show.ticketVendor,
+      show.ticketLocation,
+      show.attendance,
+      show.note ?? "",
+      show.price?.toFixed(2) ?? "",
+      show.fees?.toFixed(2) ?? "",
+      show.currency ?? "",
+      show.quantity?.toString() ?? "",
+    ])
+  })
+  return [toCSVRow(EXPORT_CSV_HEADER), ...rows].join("\r\n") + "\r\n"
+}
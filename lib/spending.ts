@@ -0,0 +1,106 @@
+import type { Show } from "./shows"
+
+/**
+ * Spending report: what tickets cost (price plus fees) per year, vendor and artist. Amounts stay in
+ * the currency they were paid in; convertSpending turns them into the home currency with the rate
+ * table the user keeps in their browser. Cancelled shows are left out, their tickets are refunded.
+ */
+
+// Amount per ISO 4217 currency; "" holds costs saved without a currency, counted as home currency
+export type Amounts = Record<string, number>
+
+export type SpendingGroup = { name: string; shows: number; amounts: Amounts }
+
+export type SpendingReport = {
+  year: string | null // null for all years
+  total: SpendingGroup
+  perYear: SpendingGroup[] // every year, also in one year's report
+  perVendor: SpendingGroup[]
+  perArtist: SpendingGroup[]
+}
+
+// What one unit of a currency is worth in the home currency, e.g. { USD: 0.92 } when home is EUR
+export type ExchangeRates = Record<string, number>
+
+export type ConvertedGroup = {
+  name: string
+  shows: number
+  total: number // in the home currency
+  unconverted: Amounts // currencies without a rate, left out of total
+}
+
+export type ConvertedSpending = {
+  currency: string
+  total: ConvertedGroup
+  perYear: ConvertedGroup[] // oldest first
+  perVendor: ConvertedGroup[] // most spent first
+  perArtist: ConvertedGroup[]
+  missingRates: string[] // currencies to add to the rate table
+}
+
+// Shows bought without a vendor
+const UNKNOWN_NAME = "Unknown"
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function showCost(show: Show): number | null {
+  if (show.attendance === "CANCELLED" || (show.price === undefined && show.fees === undefined)) return null
+  return (show.price ?? 0) + (show.fees ?? 0)
+}
+
+// Groups by record id where there is one, otherwise by a key that ignores case and spacing; the
+// first spelling seen names the group
+function groupCosts(shows: Show[], nameOf: (show: Show) => string, idOf?: (show: Show) => string | undefined): SpendingGroup[] {
+  const groups = new Map<string, SpendingGroup>()
+  for (const show of shows) {
+    const cost = showCost(show)
+    if (cost === null) continue
+    const name = nameOf(show).trim() || UNKNOWN_NAME
+    const key = idOf?.(show) ?? name.toLowerCase().replace(/\s+/g, " ")
+    const group = groups.get(key) ?? { name, shows: 0, amounts: {} }
+    const currency = show.currency ?? ""
+    group.shows++
+    group.amounts[currency] = roundCents((group.amounts[currency] ?? 0) + cost)
+    groups.set(key, group)
+  }
+  return [...groups.values()]
+}
+
+export function computeSpending(allShows: Show[], year: string | null): SpendingReport {
+  const shows = year ? allShows.filter((show) => show.date.startsWith(year)) : allShows
+  return {
+    year,
+    total: groupCosts(shows, () => "Total")[0] ?? { name: "Total", shows: 0, amounts: {} },
+    perYear: groupCosts(allShows, (show) => show.date.slice(0, 4)).sort((a, b) => a.name.localeCompare(b.name)),
+    perVendor: groupCosts(shows, (show) => show.ticketVendor),
+    perArtist: groupCosts(shows, (show) => show.show, (show) => show.artistId),
+  }
+}
+
+function convertGroup(group: SpendingGroup, currency: string, rates: ExchangeRates): ConvertedGroup {
+  let total = 0
+  const unconverted: Amounts = {}
+  for (const [from, amount] of Object.entries(group.amounts)) {
+    if (from === "" || from === currency) total += amount
+    else if (rates[from] > 0) total += amount * rates[from]
+    else unconverted[from] = amount
+  }
+  return { name: group.name, shows: group.shows, total: roundCents(total), unconverted }
+}
+
+/** The report in the home currency. Amounts in currencies the rate table lacks are kept apart. */
+export function convertSpending(report: SpendingReport, currency: string, rates: ExchangeRates): ConvertedSpending {
+  const convert = (group: SpendingGroup) => convertGroup(group, currency, rates)
+  const bySpend = (a: ConvertedGroup, b: ConvertedGroup) => b.total - a.total || a.name.localeCompare(b.name)
+  return {
+    currency,
+    total: convert(report.total),
+    perYear: report.perYear.map(convert),
+    perVendor: report.perVendor.map(convert).sort(bySpend),
+    perArtist: report.perArtist.map(convert).sort(bySpend),
+    // perYear covers every currency in the collection
+    missingRates: [...new Set(report.perYear.flatMap((group) => Object.keys(convert(group).unconverted)))].sort(),
+  }
+}
@@ -0,0 +1,64 @@
+import { getAuthHeaders, getErrorMessage, saveBlob } from "./api-client"
+import type { ShowStats } from "./show-stats"
+import type { SpendingReport } from "./spending"
+
+/** Lifetime statistics, or one year's when a year is given. */
+export async function fetchStats(year?: string): Promise<ShowStats> {
+  try {
+    const url = year ? `/api/stats?year=${encodeURIComponent(year)}` : "/api/stats"
+    const response = await fetch(url, { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load statistics"))
+    }
+    const data = await response.json()
+    return data.stats
+  } catch (error) {
+    console.error("Error fetching stats:", error)
+    throw error
+  }
+}
+
+/** Spending in the currencies paid, over all years or one year. */
+export async function fetchSpending(year?: string): Promise<SpendingReport> {
+  try {
+    const url = year ? `/api/stats/spending?year=${encodeURIComponent(year)}` : "/api/stats/spending"
+    const response = await fetch(url, { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to load spending"))
+    }
+    const data = await response.json()
+    return data.spending
+  } catch (error) {
+    console.error("Error fetching spending:", error)
+    throw error
+  }
+}
+
+// Share the year-in-review image through the system share sheet where the browser supports
+// sharing files (mostly mobile), otherwise download it
+export async function shareYearInReview(year: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/stats/image?year=${encodeURIComponent(year)}`, { headers: await getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, "Failed to create image"))
+    }
+
+    const filename = `sona-${year}-in-review.png`
+    const file = new File([await response.blob()], filename, { type: "image/png" })
+    if (navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: `My ${year} in shows` })
+        return
+      } catch (error) {
+        // Closing the share sheet is not an error
+        if (error instanceof DOMException && error.name === "AbortError") return
+        // Safari only shares during the click itself, which the image request outlasts: download instead
+        if (!(error instanceof DOMException && error.name === "NotAllowedError")) throw error
+      }
+    }
+    saveBlob(file, filename)
+  } catch (error) {
+    console.error("Error sharing year in review:", error)
+    throw error
+  }
+}
@@ -1,4 +1,4 @@
-import { createClient } from "@supabase/supabase-js"
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js"
 import type { Database } from "./database.types"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -37,3 +37,38 @@ export function getSupabaseServer() {
     },
   })
 }
+
+export type RequestAuth = {
+  supabase: SupabaseClient<Database>
+  user: User
+}
+
+/**
+ * Supabase client acting on behalf of the signed-in user.
+ *
+ * The browser sends the user's access token as `Authorization: Bearer <token>`;
+ * the returned client forwards it, so row-level security scopes every query to that user.
+ * Returns null when the request has no valid token.
+ */
+export async function getRequestAuth(request: Request): Promise<RequestAuth | null> {
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !anonKey) {
+    throw new Error("NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are required")
+  }
+
+  const token = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) return null
+
+  const supabase = createClient<Database>(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return { supabase, user: data.user }
+}
@@ -0,0 +1,5 @@
+-- Soft delete for shows: DELETE /api/shows sets deleted_at instead of removing the row,
+-- so a deletion can be undone by clearing it again.
+alter table shows add column if not exists deleted_at timestamptz;
+
+create index if not exists shows_deleted_at_idx on shows (deleted_at);
@@ -0,0 +1,76 @@
+-- Atomic bulk import for PUT /api/shows.
+-- The API route works out the merge plan and hands it over in one RPC call; everything below runs
+-- in a single transaction, so either the whole import lands or nothing changes.
+--
+-- inserts / updates: JSON arrays of shows in database column format. Each element carries "row",
+-- its 1-based position in the import, and updates also carry "id".
+-- delete_ids: shows to soft-delete (replace mode).
+--
+-- On failure the exception message names the row and DETAIL holds the bare row number,
+-- which the API route reports back to the client.
+create or replace function import_shows(
+  inserts jsonb default '[]'::jsonb,
+  updates jsonb default '[]'::jsonb,
+  delete_ids uuid[] default '{}'
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  item jsonb;
+  current_row int;
+  inserted_count int := 0;
+  updated_count int := 0;
+  deleted_count int := 0;
+begin
+  for item in select value from jsonb_array_elements(inserts) loop
+    current_row := (item->>'row')::int;
+    begin
+      insert into shows (show, date, city, venue, ticket, ticket_vendor, ticket_location, attendance, note)
+      values (
+        item->>'show',
+        (item->>'date')::date,
+        item->>'city',
+        item->>'venue',
+        item->>'ticket',
+        coalesce(item->>'ticket_vendor', ''),
+        coalesce(item->>'ticket_location', ''),
+        item->>'attendance',
+        nullif(item->>'note', '')
+      );
+      inserted_count := inserted_count + 1;
+    exception when others then
+      raise exception 'Import failed at row % (%): %', current_row, item->>'show', sqlerrm
+        using detail = current_row::text;
+    end;
+  end loop;
+
+  for item in select value from jsonb_array_elements(updates) loop
+    current_row := (item->>'row')::int;
+    begin
+      update shows set
+        show = item->>'show',
+        date = (item->>'date')::date,
+        city = item->>'city',
+        venue = item->>'venue',
+        ticket = item->>'ticket',
+        ticket_vendor = coalesce(item->>'ticket_vendor', ''),
+        ticket_location = coalesce(item->>'ticket_location', ''),
+        attendance = item->>'attendance',
+        note = nullif(item->>'note', '')
+      where id = (item->>'id')::uuid;
+      updated_count := updated_count + 1;
+    exception when others then
+      raise exception 'Import failed at row % (%): %', current_row, item->>'show', sqlerrm
+        using detail = current_row::text;
+    end;
+  end loop;
+
+  if array_length(delete_ids, 1) > 0 then
+    update shows set deleted_at = now() where id = any(delete_ids) and deleted_at is null;
+    get diagnostics deleted_count = row_count;
+  end if;
+
+  return jsonb_build_object('inserted', inserted_count, 'updated', updated_count, 'deleted', deleted_count);
+end;
+$$;
@@ -0,0 +1,68 @@
+-- Per-user show collections with Supabase Auth.
+--
+-- Every show belongs to the user who created it. API routes forward the signed-in user's
+-- access token to Supabase, so the policies below scope every query to that user.
+
+alter table shows add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+create index if not exists shows_user_id_idx on shows (user_id);
+
+-- Existing rows were created before accounts existed. Assign them to your account once you
+-- have signed up (Authentication -> Users shows your user id), otherwise they stay invisible:
+--   update shows set user_id = '<your-user-id>' where user_id is null;
+
+alter table shows enable row level security;
+
+-- Drop the old "allow everything" policy from 001, whatever it was called
+do $$
+declare
+  policy record;
+begin
+  for policy in select policyname from pg_policies where schemaname = 'public' and tablename = 'shows' loop
+    execute format('drop policy %I on shows', policy.policyname);
+  end loop;
+end $$;
+
+create policy "Users can read their own shows" on shows
+  for select using (auth.uid() = user_id);
+
+create policy "Users can create their own shows" on shows
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own shows" on shows
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their own shows" on shows
+  for delete using (auth.uid() = user_id);
+
+-- One profile per user, holding the secret token for their calendar feed (/api/calendar?token=...)
+create table if not exists profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  calendar_token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  created_at timestamptz not null default now()
+);
+
+alter table profiles enable row level security;
+
+create policy "Users can read their own profile" on profiles
+  for select using (auth.uid() = user_id);
+
+-- Create the profile when a user signs up
+create or replace function handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (user_id) values (new.id) on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
+-- Profiles for users who signed up before this migration
+insert into profiles (user_id) select id from auth.users on conflict do nothing;
@@ -0,0 +1,49 @@
+-- Route forwarded ticket emails to the right account.
+--
+-- Each user gets a personal inbound address: the local part of INBOUND_EMAIL_ADDRESS plus
+-- "+<inbound_alias>" (e.g. shows+3f9a1c07d2@in.example.com). Mail is only accepted from
+-- senders on the user's allow-list; the sign-up email is added automatically.
+-- Mail sent to the shared address is matched by sender alone.
+
+alter table profiles add column if not exists inbound_alias text unique default encode(gen_random_bytes(5), 'hex');
+alter table profiles alter column inbound_alias set not null;
+
+create table if not exists inbound_senders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  email text not null check (email = lower(email)),
+  created_at timestamptz not null default now(),
+  unique (user_id, email)
+);
+
+create index if not exists inbound_senders_email_idx on inbound_senders (email);
+
+alter table inbound_senders enable row level security;
+
+create policy "Users can read their own inbound senders" on inbound_senders
+  for select using (auth.uid() = user_id);
+
+create policy "Users can add their own inbound senders" on inbound_senders
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can remove their own inbound senders" on inbound_senders
+  for delete using (auth.uid() = user_id);
+
+-- Sign-up now also allow-lists the account's own email address
+create or replace function handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (user_id) values (new.id) on conflict do nothing;
+  if new.email is not null then
+    insert into public.inbound_senders (user_id, email) values (new.id, lower(new.email)) on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+insert into inbound_senders (user_id, email)
+select id, lower(email) from auth.users where email is not null
+on conflict do nothing;
@@ -0,0 +1,31 @@
+-- Review inbox for forwarded ticket emails the parser could not turn into a show.
+--
+-- The inbound webhook stores the email with whatever it could extract (parsed) and why it was held
+-- (reason). Accepting one in the dashboard creates the show and sets resolved_at/show_id;
+-- dismissing deletes the row.
+
+create table if not exists pending_emails (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  subject text not null default '',
+  sender text not null default '',
+  body text not null default '',
+  parsed jsonb,
+  reason text not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  show_id uuid references shows (id) on delete set null
+);
+
+create index if not exists pending_emails_open_idx on pending_emails (user_id, created_at) where resolved_at is null;
+
+alter table pending_emails enable row level security;
+
+create policy "Users can read their own pending emails" on pending_emails
+  for select using (auth.uid() = user_id);
+
+create policy "Users can resolve their own pending emails" on pending_emails
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can dismiss their own pending emails" on pending_emails
+  for delete using (auth.uid() = user_id);
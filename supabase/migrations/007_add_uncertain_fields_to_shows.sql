@@ -0,0 +1,4 @@
+-- Shows created from forwarded emails remember which fields the parser was unsure about
+-- (show, date, city, venue) so the dashboard can highlight them. Editing the show clears the list.
+
+alter table shows add column if not exists uncertain_fields text[] not null default '{}';
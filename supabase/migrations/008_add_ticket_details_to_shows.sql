@@ -0,0 +1,9 @@
+-- Order details parsed from ticket confirmation emails. All optional: shows added by hand or
+-- imported from the sheet leave them empty.
+
+alter table shows add column if not exists order_number text;
+alter table shows add column if not exists quantity integer check (quantity > 0);
+alter table shows add column if not exists seat text;
+alter table shows add column if not exists price numeric(10, 2) check (price >= 0);
+alter table shows add column if not exists currency text check (currency ~ '^[A-Z]{3}$');
+alter table shows add column if not exists door_time time;
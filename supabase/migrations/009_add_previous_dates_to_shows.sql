@@ -0,0 +1,4 @@
+-- Shows moved to a new date by a forwarded postponement email keep their earlier dates here,
+-- oldest first, so the card can show when the show was originally scheduled.
+
+alter table shows add column if not exists previous_dates date[] not null default '{}';
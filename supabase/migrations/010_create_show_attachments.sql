@@ -0,0 +1,30 @@
+-- Ticket files (PDF, Apple Wallet .pkpass) attached to forwarded ticket emails.
+--
+-- The inbound webhook uploads them to the private "tickets" storage bucket under
+-- <user_id>/<email_id>/ and links them to every show the email created or updated, so one file can
+-- have several rows. Users read their own rows and files; only the webhook (service role) writes.
+
+insert into storage.buckets (id, name, public)
+values ('tickets', 'tickets', false)
+on conflict (id) do nothing;
+
+create table if not exists show_attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  show_id uuid not null references shows (id) on delete cascade,
+  filename text not null,
+  content_type text not null,
+  size integer not null default 0,
+  storage_path text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists show_attachments_show_idx on show_attachments (show_id);
+
+alter table show_attachments enable row level security;
+
+create policy "Users can read their own show attachments" on show_attachments
+  for select using (auth.uid() = user_id);
+
+create policy "Users can read their own ticket files" on storage.objects
+  for select using (bucket_id = 'tickets' and (storage.foldername(name))[1] = auth.uid()::text);
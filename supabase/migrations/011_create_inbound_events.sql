@@ -0,0 +1,29 @@
+-- Log of inbound email webhook deliveries, one row per Resend event (the svix-id header).
+--
+-- Resend retries a delivery when the webhook fails or times out. The webhook records each event
+-- before processing it, so a retry of an event that was already handled is acknowledged without
+-- creating its shows a second time. Failed events keep the error and their payload and can be
+-- reprocessed from the dashboard. user_id is set once the email has been routed to an account;
+-- only the webhook (service role) writes.
+
+create table if not exists inbound_events (
+  id uuid primary key default gen_random_uuid(),
+  svix_id text not null unique,
+  email_id text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  subject text not null default '',
+  payload jsonb not null default '{}',
+  status text not null default 'received' check (status in ('received', 'parsed', 'created', 'failed')),
+  error text,
+  result jsonb,
+  attempts integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists inbound_events_failed_idx on inbound_events (user_id, created_at) where status = 'failed';
+
+alter table inbound_events enable row level security;
+
+create policy "Users can read their own inbound events" on inbound_events
+  for select using (auth.uid() = user_id);
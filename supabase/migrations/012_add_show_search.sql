@@ -0,0 +1,55 @@
+-- Search for the dashboard's search box: accent-insensitive ("Koln" finds "Köln"), tolerant of
+-- typos (trigram similarity), and covering show name, city, venue and notes.
+--
+-- search_text is the lower-cased, unaccented text of those fields. search_shows() is called by
+-- GET /api/shows as an RPC and returns matching shows best match first: show name matches, then
+-- word similarity, then newest. It runs with the caller's rights, so row-level security applies
+-- and the API adds its other filters on top.
+
+create extension if not exists unaccent with schema extensions;
+create extension if not exists pg_trgm with schema extensions;
+
+-- unaccent() is only stable (its dictionary could change), which generated columns do not accept
+create or replace function immutable_unaccent(value text)
+returns text
+language sql
+immutable parallel safe strict
+set search_path = public, extensions
+as $$
+  select extensions.unaccent('extensions.unaccent'::regdictionary, value)
+$$;
+
+alter table shows add column if not exists search_text text
+  generated always as (lower(immutable_unaccent(show || ' ' || city || ' ' || venue || ' ' || coalesce(note, '')))) stored;
+
+create index if not exists shows_search_text_trgm_idx on shows using gin (search_text extensions.gin_trgm_ops);
+create index if not exists shows_search_text_fts_idx on shows using gin (to_tsvector('simple', search_text));
+
+-- search: free text (may be empty); city_name / venue_name: exact matches, ignoring case and accents
+create or replace function search_shows(
+  search text default '',
+  city_name text default null,
+  venue_name text default null
+)
+returns setof shows
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select s.*
+  from shows s
+  cross join (select lower(immutable_unaccent(trim(coalesce(search, '')))) as term) q
+  where (
+      q.term = ''
+      or strpos(s.search_text, q.term) > 0
+      or q.term <% s.search_text
+      or to_tsvector('simple', s.search_text) @@ plainto_tsquery('simple', q.term)
+    )
+    and (city_name is null or lower(immutable_unaccent(s.city)) = lower(immutable_unaccent(city_name)))
+    and (venue_name is null or lower(immutable_unaccent(s.venue)) = lower(immutable_unaccent(venue_name)))
+  order by
+    strpos(lower(immutable_unaccent(s.show)), q.term) > 0 desc,
+    word_similarity(q.term, s.search_text) desc,
+    s.date desc,
+    s.id
+$$;
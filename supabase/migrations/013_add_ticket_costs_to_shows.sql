@@ -0,0 +1,86 @@
+-- Ticket costs for the spending report. price (migration 008) is what the tickets cost, for all
+-- `quantity` tickets together; fees are booking and service fees on top of it, in the same currency.
+--
+-- import_shows now also takes price, fees, currency and quantity from the sheet. The cost columns
+-- are optional there: on update, a cost field the row does not carry keeps its saved value, so
+-- importing a sheet without them never clears details that came from ticket emails.
+
+alter table shows add column if not exists fees numeric(10, 2) check (fees >= 0);
+
+create or replace function import_shows(
+  inserts jsonb default '[]'::jsonb,
+  updates jsonb default '[]'::jsonb,
+  delete_ids uuid[] default '{}'
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  item jsonb;
+  current_row int;
+  inserted_count int := 0;
+  updated_count int := 0;
+  deleted_count int := 0;
+begin
+  for item in select value from jsonb_array_elements(inserts) loop
+    current_row := (item->>'row')::int;
+    begin
+      insert into shows (
+        show, date, city, venue, ticket, ticket_vendor, ticket_location, attendance, note,
+        price, fees, currency, quantity
+      )
+      values (
+        item->>'show',
+        (item->>'date')::date,
+        item->>'city',
+        item->>'venue',
+        item->>'ticket',
+        coalesce(item->>'ticket_vendor', ''),
+        coalesce(item->>'ticket_location', ''),
+        item->>'attendance',
+        nullif(item->>'note', ''),
+        (item->>'price')::numeric,
+        (item->>'fees')::numeric,
+        item->>'currency',
+        (item->>'quantity')::int
+      );
+      inserted_count := inserted_count + 1;
+    exception when others then
+      raise exception 'Import failed at row % (%): %', current_row, item->>'show', sqlerrm
+        using detail = current_row::text;
+    end;
+  end loop;
+
+  for item in select value from jsonb_array_elements(updates) loop
+    current_row := (item->>'row')::int;
+    begin
+      update shows set
+        show = item->>'show',
+        date = (item->>'date')::date,
+        city = item->>'city',
+        venue = item->>'venue',
+        ticket = item->>'ticket',
+        ticket_vendor = coalesce(item->>'ticket_vendor', ''),
+        ticket_location = coalesce(item->>'ticket_location', ''),
+        attendance = item->>'attendance',
+        note = nullif(item->>'note', ''),
+        price = case when item ? 'price' then (item->>'price')::numeric else price end,
+        fees = case when item ? 'fees' then (item->>'fees')::numeric else fees end,
+        currency = case when item ? 'currency' then item->>'currency' else currency end,
+        quantity = case when item ? 'quantity' then (item->>'quantity')::int else quantity end
+      where id = (item->>'id')::uuid;
+      updated_count := updated_count + 1;
+    exception when others then
+      raise exception 'Import failed at row % (%): %', current_row, item->>'show', sqlerrm
+        using detail = current_row::text;
+    end;
+  end loop;
+
+  if array_length(delete_ids, 1) > 0 then
+    update shows set deleted_at = now() where id = any(delete_ids) and deleted_at is null;
+    get diagnostics deleted_count = row_count;
+  end if;
+
+  return jsonb_build_object('inserted', inserted_count, 'updated', updated_count, 'deleted', deleted_count);
+end;
+$$;
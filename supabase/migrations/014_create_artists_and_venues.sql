@@ -0,0 +1,262 @@
+-- Artists and venues as their own records, so "SO36", "So36 Berlin" and "SO 36" are one venue.
+--
+-- Every show links to an artist and a venue. A trigger does the linking whenever a show is created
+-- or its show, venue or city text changes, whichever way it was saved (form, CSV import, forwarded
+-- email): names are matched by entity_key, which ignores case, accents, spaces and punctuation,
+-- against each record's name and aliases; venues also have to be in the same city. Unknown names
+-- get a new record. The show keeps the record's name in its text columns, so search, filters and
+-- exports read the same names.
+--
+-- merge_artists / merge_venues collapse duplicates: the shows move to the kept record and the other
+-- names become its aliases, so future shows under those names link to it as well. Renaming a record
+-- renames its shows.
+
+-- "SO 36" / "so36" / "Só-36" -> "so36"
+create or replace function entity_key(value text)
+returns text
+language sql
+immutable parallel safe strict
+set search_path = public, extensions
+as $$
+  select coalesce(
+    nullif(regexp_replace(lower(immutable_unaccent(value)), '[[:space:][:punct:]]+', '', 'g'), ''),
+    lower(trim(value))
+  )
+$$;
+
+create or replace function entity_keys(names text[])
+returns text[]
+language sql
+immutable parallel safe strict
+set search_path = public, extensions
+as $$
+  select array(select distinct entity_key(name) from unnest(names) as name)
+$$;
+
+-- The keys of several names, in their order; the app matches imported rows with it, so it never
+-- has to reproduce unaccent
+create or replace function entity_key_list(names text[])
+returns text[]
+language sql
+immutable parallel safe strict
+set search_path = public, extensions
+as $$
+  select coalesce(array_agg(entity_key(name) order by position), '{}')
+  from unnest(names) with ordinality as named(name, position)
+$$;
+
+create table if not exists artists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null check (trim(name) <> ''),
+  aliases text[] not null default '{}',
+  match_keys text[] generated always as (entity_keys(array_prepend(name, aliases))) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists venues (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null check (trim(name) <> ''),
+  aliases text[] not null default '{}',
+  address text,
+  city text not null,
+  country text check (country ~ '^[A-Z]{2}$'), -- ISO 3166-1 alpha-2, e.g. DE
+  latitude double precision check (latitude between -90 and 90),
+  longitude double precision check (longitude between -180 and 180),
+  match_keys text[] generated always as (entity_keys(array_prepend(name, aliases))) stored,
+  city_key text generated always as (entity_key(city)) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists artists_match_keys_idx on artists using gin (match_keys);
+create index if not exists artists_user_id_idx on artists (user_id);
+create index if not exists venues_match_keys_idx on venues using gin (match_keys);
+create index if not exists venues_user_id_idx on venues (user_id, city_key);
+
+alter table artists enable row level security;
+alter table venues enable row level security;
+
+create policy "Users can read their own artists" on artists for select using (auth.uid() = user_id);
+create policy "Users can create their own artists" on artists for insert with check (auth.uid() = user_id);
+create policy "Users can update their own artists" on artists
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users can delete their own artists" on artists for delete using (auth.uid() = user_id);
+
+create policy "Users can read their own venues" on venues for select using (auth.uid() = user_id);
+create policy "Users can create their own venues" on venues for insert with check (auth.uid() = user_id);
+create policy "Users can update their own venues" on venues
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users can delete their own venues" on venues for delete using (auth.uid() = user_id);
+
+alter table shows add column if not exists artist_id uuid references artists (id) on delete set null;
+alter table shows add column if not exists venue_id uuid references venues (id) on delete set null;
+
+create index if not exists shows_artist_id_idx on shows (artist_id);
+create index if not exists shows_venue_id_idx on shows (venue_id);
+
+-- Link a show to its artist and venue, creating them when the names are new. A show keeps its
+-- current record while that still matches, even if another record has the same name as an alias.
+create or replace function link_show_entities()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+declare
+  found_artist artists%rowtype;
+  found_venue venues%rowtype;
+begin
+  if new.user_id is null then
+    return new;
+  end if;
+
+  select * into found_artist
+  from artists
+  where user_id = new.user_id and match_keys @> array[entity_key(new.show)]
+  order by id = new.artist_id desc nulls last, created_at
+  limit 1;
+  if not found then
+    insert into artists (user_id, name) values (new.user_id, trim(new.show)) returning * into found_artist;
+  end if;
+
+  select * into found_venue
+  from venues
+  where user_id = new.user_id and city_key = entity_key(new.city) and match_keys @> array[entity_key(new.venue)]
+  order by id = new.venue_id desc nulls last, created_at
+  limit 1;
+  if not found then
+    insert into venues (user_id, name, city) values (new.user_id, trim(new.venue), trim(new.city)) returning * into found_venue;
+  end if;
+
+  new.artist_id := found_artist.id;
+  new.show := found_artist.name;
+  new.venue_id := found_venue.id;
+  new.venue := found_venue.name;
+  new.city := found_venue.city;
+  return new;
+end;
+$$;
+
+drop trigger if exists shows_link_entities on shows;
+create trigger shows_link_entities
+  before insert or update of show, venue, city on shows
+  for each row execute function link_show_entities();
+
+-- Renaming a record renames its shows
+create or replace function rename_entity_shows()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_table_name = 'artists' then
+    update shows set show = new.name where artist_id = new.id and show is distinct from new.name;
+  else
+    update shows set venue = new.name, city = new.city
+    where venue_id = new.id and (venue is distinct from new.name or city is distinct from new.city);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists artists_rename_shows on artists;
+create trigger artists_rename_shows
+  after update of name on artists
+  for each row execute function rename_entity_shows();
+
+drop trigger if exists venues_rename_shows on venues;
+create trigger venues_rename_shows
+  after update of name, city on venues
+  for each row execute function rename_entity_shows();
+
+-- The names of the merged records (and their aliases) as aliases of the kept one
+create or replace function merged_aliases(kept_name text, kept_aliases text[], names text[])
+returns text[]
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select coalesce(array_agg(alias order by alias), '{}')
+  from (
+    select distinct on (entity_key(alias)) alias
+    from unnest(kept_aliases || names) as alias
+    where entity_key(alias) <> entity_key(kept_name)
+    order by entity_key(alias), alias
+  ) as distinct_aliases
+$$;
+
+-- Move the shows of source_ids to target_id and delete the sources. Returns the number of shows moved.
+create or replace function merge_artists(target_id uuid, source_ids uuid[])
+returns integer
+language plpgsql
+as $$
+declare
+  target artists%rowtype;
+  moved integer;
+begin
+  select * into target from artists where id = target_id;
+  if not found then
+    raise exception 'Artist not found' using errcode = 'P0002';
+  end if;
+  source_ids := array_remove(source_ids, target_id);
+
+  update artists set
+    aliases = merged_aliases(
+      target.name,
+      target.aliases,
+      (select coalesce(array_agg(name), '{}') || coalesce(array_agg(alias), '{}')
+       from artists left join lateral unnest(aliases) as alias on true
+       where id = any(source_ids))
+    ),
+    updated_at = now()
+  where id = target_id;
+
+  update shows set artist_id = target_id, show = target.name where artist_id = any(source_ids);
+  get diagnostics moved = row_count;
+
+  delete from artists where id = any(source_ids);
+  return moved;
+end;
+$$;
+
+create or replace function merge_venues(target_id uuid, source_ids uuid[])
+returns integer
+language plpgsql
+as $$
+declare
+  target venues%rowtype;
+  moved integer;
+begin
+  select * into target from venues where id = target_id;
+  if not found then
+    raise exception 'Venue not found' using errcode = 'P0002';
+  end if;
+  source_ids := array_remove(source_ids, target_id);
+
+  update venues set
+    aliases = merged_aliases(
+      target.name,
+      target.aliases,
+      (select coalesce(array_agg(name), '{}') || coalesce(array_agg(alias), '{}')
+       from venues left join lateral unnest(aliases) as alias on true
+       where id = any(source_ids))
+    ),
+    -- Keep details the kept record is missing
+    address = coalesce(target.address, (select address from venues where id = any(source_ids) and address is not null limit 1)),
+    country = coalesce(target.country, (select country from venues where id = any(source_ids) and country is not null limit 1)),
+    latitude = coalesce(target.latitude, (select latitude from venues where id = any(source_ids) and latitude is not null limit 1)),
+    longitude = coalesce(target.longitude, (select longitude from venues where id = any(source_ids) and longitude is not null limit 1)),
+    updated_at = now()
+  where id = target_id;
+
+  update shows set venue_id = target_id, venue = target.name, city = target.city where venue_id = any(source_ids);
+  get diagnostics moved = row_count;
+
+  delete from venues where id = any(source_ids);
+  return moved;
+end;
+$$;
+
+-- Link the shows that already exist
+update shows set show = show where user_id is not null;
@@ -0,0 +1,15 @@
+-- One attachment row per show and stored file. Reprocessing an inbound event, or forwarding the
+-- same email again, stores the same file under the same path; the webhook skips the rows that
+-- already exist instead of adding them again.
+
+delete from show_attachments
+where id in (
+  select id
+  from (
+    select id, row_number() over (partition by show_id, storage_path order by created_at, id) as position
+    from show_attachments
+  ) as numbered
+  where position > 1
+);
+
+create unique index if not exists show_attachments_show_path_idx on show_attachments (show_id, storage_path);
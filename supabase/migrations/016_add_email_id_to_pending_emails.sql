@@ -0,0 +1,11 @@
+-- Which inbound email (and which event in it) a held email came from.
+--
+-- Resend retries failed deliveries and failed events can be reprocessed by hand; processing the same
+-- email again holds the same events again. The webhook inserts with on conflict do nothing, so
+-- every event of an email is held once. Emails held before this migration have no email_id.
+
+alter table pending_emails add column if not exists email_id text;
+alter table pending_emails add column if not exists item_index integer not null default 0;
+
+alter table pending_emails drop constraint if exists pending_emails_email_item_key;
+alter table pending_emails add constraint pending_emails_email_item_key unique (email_id, item_index);